@@ -0,0 +1,59 @@
+import React from 'react';
+import { AccidentalGlyphName } from '@/lib/accidentals';
+
+interface AccidentalGlyphProps {
+  glyph: AccidentalGlyphName;
+  x: number;
+  y: number;
+  size: number; // One staff space in px
+  className?: string;
+}
+
+// All paths are drawn in staff spaces around the notehead's line or space (0, 0)
+const FLAT_STEM = 'M -0.3 -1.8 V 0.55';
+const FLAT_BOWL = 'M -0.3 0.05 C 0 -0.4, 0.6 -0.35, 0.45 0.05 C 0.35 0.3, 0 0.45, -0.3 0.55';
+const SLASH_UPPER = 'M -0.65 -0.75 L 0.05 -1.1';
+const SLASH_LOWER = 'M -0.65 -1.2 L 0.05 -1.55';
+const SHARP_SLASH = 'M -0.55 0.9 L 0.55 -0.9';
+
+const sharpBars = (halfWidth: number) =>
+  `M ${-halfWidth} 0.5 L ${halfWidth} 0.2 M ${-halfWidth} -0.2 L ${halfWidth} -0.5`;
+const sharpVerticals = (xs: number[]) =>
+  xs.map(x => `M ${x} -1.2 V 1.2`).join(' ');
+
+// Thin strokes (stems and verticals) and thick strokes (sharp/natural bars) per glyph
+const GLYPH_PATHS: Record<AccidentalGlyphName, { thin: string; thick?: string; mirror?: boolean }> = {
+  'natural': { thin: 'M -0.25 -1.2 V 0.45 M 0.25 -0.45 V 1.2', thick: 'M -0.25 -0.25 L 0.25 -0.4 M -0.25 0.4 L 0.25 0.25' },
+  'sharp': { thin: sharpVerticals([-0.2, 0.2]), thick: sharpBars(0.5) },
+  'flat': { thin: `${FLAT_STEM} ${FLAT_BOWL}` },
+  'half-sharp': { thin: sharpVerticals([0]), thick: sharpBars(0.4) },
+  'half-flat': { thin: `${FLAT_STEM} ${FLAT_BOWL} ${SLASH_UPPER}` },
+  'koma-sharp': { thin: `${sharpVerticals([0])} ${SHARP_SLASH}`, thick: sharpBars(0.4) },
+  'bakiye-sharp': { thin: sharpVerticals([-0.2, 0.2]), thick: sharpBars(0.5) },
+  'kucuk-mucenneb-sharp': { thin: `${sharpVerticals([-0.2, 0.2])} ${SHARP_SLASH}`, thick: sharpBars(0.5) },
+  'buyuk-mucenneb-sharp': { thin: sharpVerticals([-0.35, 0, 0.35]), thick: sharpBars(0.65) },
+  'koma-flat': { thin: `${FLAT_STEM} ${FLAT_BOWL}`, mirror: true },
+  'bakiye-flat': { thin: `${FLAT_STEM} ${FLAT_BOWL}` },
+  'kucuk-mucenneb-flat': { thin: `${FLAT_STEM} ${FLAT_BOWL} ${SLASH_LOWER}` },
+  'buyuk-mucenneb-flat': { thin: `${FLAT_STEM} ${FLAT_BOWL} ${SLASH_UPPER} ${SLASH_LOWER}` },
+};
+
+// Draws an Arabic or Turkish accidental sign as SVG paths, so quarter-tone and
+// comma signs render the same on every device regardless of installed music fonts
+export function AccidentalGlyph({ glyph, x, y, size, className }: AccidentalGlyphProps) {
+  const { thin, thick, mirror } = GLYPH_PATHS[glyph];
+  const scaleX = mirror ? -size : size;
+  
+  return (
+    <g
+      transform={`translate(${x} ${y}) scale(${scaleX} ${size})`}
+      className={className}
+      fill="none"
+      stroke="currentColor"
+      strokeLinecap="round"
+    >
+      <path d={thin} strokeWidth={0.12} />
+      {thick && <path d={thick} strokeWidth={0.22} />}
+    </g>
+  );
+}
@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react';
+import { metronome, MetronomeTick, AccentLevel } from '@/lib/metronome';
+import { cn } from '@/lib/utils';
+
+interface BeatIndicatorProps {
+  accents: AccentLevel[];
+  className?: string;
+}
+
+export function BeatIndicator({ accents, className }: BeatIndicatorProps) {
+  const [tick, setTick] = useState<MetronomeTick | null>(null);
+
+  useEffect(() => {
+    // Only beats move the light; subdivisions would make it flicker
+    const unsubscribe = metronome.onTick(t => {
+      if (t.subdivision === 0) setTick(t);
+    });
+    return () => {
+      unsubscribe();
+      setTick(null);
+    };
+  }, []);
+
+  return (
+    <div className={cn('flex items-center gap-1', className)} title={tick?.countIn ? 'Count-in' : 'Metronome'}>
+      {accents.map((accent, i) => {
+        const isActive = tick?.beat === i;
+        return (
+          <div
+            key={i}
+            className={cn(
+              'rounded-full transition-colors duration-75',
+              accent === 'strong' ? 'w-2.5 h-2.5' : 'w-2 h-2',
+              accent === 'mute' && 'opacity-40',
+              !isActive && 'bg-muted',
+              isActive && (tick?.countIn ? 'bg-destructive' : accent === 'strong' ? 'bg-accent' : 'bg-primary')
+            )}
+          />
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Ear, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Settings } from '@/lib/settings';
+import { Note, formatNote, getCandidateNotes, noteToMidi } from '@/lib/noteUtils';
+import { KeySignature } from '@/lib/keySignatures';
+import { getEarAnswers, intervalName, playEarPrompt } from '@/lib/earTraining';
+import { cn } from '@/lib/utils';
+
+interface EarTrainingProps {
+  settings: Settings;
+  keySignature: KeySignature;
+  target?: { note: Note; status: 'pending' | 'correct' | 'incorrect'; uid: string };
+  onAnswer: (note: Note) => void;
+  compact?: boolean;
+  className?: string;
+}
+
+// Plays each target with the staff hidden; the student answers here, on the oud or with the mic
+export function EarTraining({ settings, keySignature, target, onAnswer, compact = false, className }: EarTrainingProps) {
+  const [wrongKey, setWrongKey] = useState<string | null>(null);
+  const cancelPromptRef = useRef<() => void>(() => {});
+
+  // Same pool randomNoteInRange draws from, so every answer is one that can come up
+  const candidates = useMemo(
+    () => getCandidateNotes(settings.lowestNote, settings.highestNote, settings.includeAccidentals, settings.includeQuarterTones, keySignature),
+    [settings.lowestNote, settings.highestNote, settings.includeAccidentals, settings.includeQuarterTones, keySignature]
+  );
+  // Intervals are heard against the reference, so asking for them turns it on
+  const reference = settings.earReferenceTone || settings.earIntervalAnswers ? candidates[0] ?? null : null;
+  const answers = useMemo(
+    () => getEarAnswers(candidates, settings.notationSystem, settings.earIntervalAnswers ? reference : null),
+    [candidates, settings.notationSystem, settings.earIntervalAnswers, reference]
+  );
+
+  const play = () => {
+    if (!target) return;
+    cancelPromptRef.current();
+    cancelPromptRef.current = playEarPrompt(target.note, reference);
+  };
+
+  // Every new target is played as it comes up; a settings change alone doesn't replay it
+  const promptRef = useRef({ target, reference });
+  promptRef.current = { target, reference };
+  const targetUid = target?.uid;
+  useEffect(() => {
+    setWrongKey(null);
+    const { target: current, reference: currentReference } = promptRef.current;
+    if (!current) return;
+    cancelPromptRef.current = playEarPrompt(current.note, currentReference);
+    return () => cancelPromptRef.current();
+  }, [targetUid]);
+
+  const handleAnswer = (key: string, note: Note) => {
+    if (!target || target.status !== 'pending') return;
+    setWrongKey(noteToMidi(note) === noteToMidi(target.note) ? null : key);
+    onAnswer(note);
+  };
+
+  const revealed = target?.status === 'correct';
+
+  return (
+    <div className={cn('flex flex-col gap-3', compact && 'gap-1', className)}>
+      <div className="flex items-center justify-between gap-2">
+        <Button variant="outline" size={compact ? 'sm' : 'default'} onClick={play} disabled={!target} className="gap-2">
+          <Play className="w-4 h-4" />
+          Play Again
+        </Button>
+        <div className={cn('text-muted-foreground', compact ? 'text-xs' : 'text-sm')}>
+          {reference && <>Reference: {formatNote(reference, settings.notationSystem)}</>}
+        </div>
+        <div className={cn('flex items-center gap-1 font-serif font-semibold', compact ? 'text-base' : 'text-xl', revealed ? 'text-success' : 'text-muted-foreground')}>
+          <Ear className="w-4 h-4" />
+          {revealed && target
+            ? settings.earIntervalAnswers && reference
+              ? intervalName(noteToMidi(target.note) - noteToMidi(reference))
+              : formatNote(target.note, settings.notationSystem)
+            : '?'}
+        </div>
+      </div>
+      <div className={cn('grid gap-1.5', compact ? 'grid-cols-6 sm:grid-cols-8' : 'grid-cols-4 sm:grid-cols-6 md:grid-cols-8')}>
+        {answers.map(answer => (
+          <Button
+            key={answer.key}
+            variant="outline"
+            size="sm"
+            className={cn(
+              'font-medium',
+              compact && 'h-7 px-1 text-xs',
+              answer.key === wrongKey && target?.status === 'incorrect' && 'border-destructive text-destructive animate-note-shake',
+              revealed && noteToMidi(answer.note) === noteToMidi(target!.note) && 'border-success text-success'
+            )}
+            onClick={() => handleAnswer(answer.key, answer.note)}
+          >
+            {answer.label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { Iqa, iqaPlayer, withKaFills } from '@/lib/iqaPlayer';
+import { cn } from '@/lib/utils';
+
+interface IqaTimelineProps {
+  iqa: Iqa;
+  fills: boolean;
+  isPlaying: boolean;
+  compact?: boolean;
+  className?: string;
+}
+
+const STROKE_LABELS = { dumm: 'D', tak: 'T', ka: 'k' };
+
+export function IqaTimeline({ iqa, fills, isPlaying, compact, className }: IqaTimelineProps) {
+  const [activeStep, setActiveStep] = useState<number | null>(null);
+  const strokes = fills ? withKaFills(iqa.strokes) : iqa.strokes;
+  // Eighth-note steps per beat, for the beat separators
+  const stepsPerBeat = 8 / iqa.beatValue;
+
+  useEffect(() => {
+    if (!isPlaying) {
+      setActiveStep(null);
+      return;
+    }
+    return iqaPlayer.onStep(step => setActiveStep(step.step));
+  }, [isPlaying]);
+
+  return (
+    <div className={cn('flex items-center gap-2', className)}>
+      {!compact && (
+        <div className="text-sm font-medium whitespace-nowrap">
+          {iqa.name} <span className="text-muted-foreground" dir="rtl" lang="ar">{iqa.arabic}</span>
+          <span className="text-xs text-muted-foreground ml-1">{iqa.beats}/{iqa.beatValue}</span>
+        </div>
+      )}
+      <div className="flex items-center gap-0.5">
+        {strokes.map((stroke, i) => (
+          <div
+            key={i}
+            className={cn(
+              'flex items-center justify-center rounded font-mono transition-colors duration-75',
+              compact ? 'w-4 h-4 text-[10px]' : 'w-6 h-6 text-xs',
+              i > 0 && i % stepsPerBeat === 0 && (compact ? 'ml-1' : 'ml-1.5'),
+              stroke === 'dumm' && 'bg-primary/20 text-primary font-bold',
+              stroke === 'tak' && 'bg-accent/20 text-accent-foreground font-semibold',
+              stroke === 'ka' && 'bg-muted text-muted-foreground',
+              stroke === null && 'bg-muted/40',
+              activeStep === i && 'ring-2 ring-accent bg-accent text-accent-foreground'
+            )}
+          >
+            {stroke ? STROKE_LABELS[stroke] : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
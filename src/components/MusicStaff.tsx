@@ -1,5 +1,10 @@
 import React from 'react';
-import { Note, formatNoteShort, NotationSystem, getStaffPosition } from '@/lib/noteUtils';
+import { Note, formatNote, getArabicNoteName, NotationSystem, getStaffPosition, getLedgerLines } from '@/lib/noteUtils';
+import { AccidentalStyle, ACCIDENTAL_GLYPH_WIDTHS, getAccidentalGlyph, getStaffAccidentalGlyph } from '@/lib/accidentals';
+import { KeySignature, getKeySignatureLayout } from '@/lib/keySignatures';
+import { Clef } from '@/lib/clefs';
+import { RhythmEvent, TimeSignature, NOTE_VALUE_FLAGS, REST_GLYPHS, getBeamGroups } from '@/lib/rhythm';
+import { AccidentalGlyph } from '@/components/AccidentalGlyph';
 import { cn } from '@/lib/utils';
 import { useIsMobile } from '@/hooks/use-mobile';
 
@@ -8,15 +13,21 @@ interface TargetNote {
   status: 'pending' | 'correct' | 'incorrect';
   isNew?: boolean;
   uid?: string;
+  rhythm?: RhythmEvent;
 }
 
 interface MusicStaffProps {
   targetNotes: TargetNote[];
   currentIndex: number;
   notationSystem: NotationSystem;
+  accidentalStyle: AccidentalStyle;
+  keySignature: KeySignature;
+  clef: Clef;
+  transposition: number;
+  timeSignature?: TimeSignature; // Untimed quarter-note heads when absent
 }
 
-export function MusicStaff({ targetNotes, currentIndex, notationSystem }: MusicStaffProps) {
+export function MusicStaff({ targetNotes, currentIndex, notationSystem, accidentalStyle, keySignature, clef, transposition, timeSignature }: MusicStaffProps) {
   const staffHeight = 200;
   const lineSpacing = 20;
   const noteSpacing = 100;
@@ -25,35 +36,76 @@ export function MusicStaff({ targetNotes, currentIndex, notationSystem }: MusicS
   const isMobile = useIsMobile();
   const currentNote = targetNotes[currentIndex]?.note;
   
+  // Key signature sits between the clef and the first note
+  const signature = getKeySignatureLayout(keySignature, clef);
+  const signatureStartX = 78;
+  const signatureSpacing = lineSpacing * 1.1;
+  const timeSignatureX = signatureStartX + signature.length * signatureSpacing + lineSpacing * 0.6;
+  const timeSignatureWidth = timeSignature ? lineSpacing * 1.6 : 0;
+  const notesStartX = leftPadding + signature.length * signatureSpacing + timeSignatureWidth;
+  
+  // Stems and beams: a beamed group shares one stem direction and a flat beam
+  const stemLength = 50;
+  const positions = targetNotes.map(t => getStaffPosition(t.note, clef, transposition));
+  const beamGroups = timeSignature ? getBeamGroups(targetNotes.map(t => t.rhythm), timeSignature) : [];
+  const beams = new Map<number, { stemUp: boolean; beamY: number }>();
+  beamGroups.forEach((group, i) => {
+    if (group === null || beams.has(group)) return;
+    const members = positions.filter((_, j) => beamGroups[j] === group);
+    const stemUp = members.reduce((sum, p) => sum + p, 0) / members.length < 0;
+    const ys = members.map(p => middleLineY - p * (lineSpacing / 2));
+    beams.set(group, {
+      stemUp,
+      beamY: stemUp ? Math.min(...ys) - stemLength : Math.max(...ys) + stemLength,
+    });
+  });
+  
   // Staff lines Y positions (5 lines)
   const staffLines = [-2, -1, 0, 1, 2].map(i => middleLineY + i * lineSpacing);
   
   const renderNote = (targetNote: TargetNote, index: number) => {
-    const { note, status, isNew } = targetNote;
+    const { note, status, isNew, rhythm } = targetNote;
     const isCurrent = index === currentIndex;
+    const noteX = notesStartX + index * noteSpacing;
+    const value = rhythm?.duration.value ?? 'quarter';
     
-    // Calculate Y position based on note
-    // Treble clef: B4 is on middle line, each step is half a lineSpacing
-    const position = getStaffPosition(note);
+    // Calculate Y position from the clef's middle line, each step is half a lineSpacing
+    const position = positions[index];
     const noteY = middleLineY - position * (lineSpacing / 2);
-    const noteX = leftPadding + index * noteSpacing;
+    const accidentalGlyph = rhythm?.isRest ? null : getStaffAccidentalGlyph(note, accidentalStyle, keySignature);
     
-    // Check if we need ledger lines
-    const ledgerLines: number[] = [];
+    // Ledger lines on every even position from +/-6 outwards
+    const { above, below } = rhythm?.isRest ? { above: 0, below: 0 } : getLedgerLines(note, clef, transposition);
+    const ledgerLines = [
+      ...Array.from({ length: above }, (_, i) => middleLineY - (6 + i * 2) * (lineSpacing / 2)),
+      ...Array.from({ length: below }, (_, i) => middleLineY + (6 + i * 2) * (lineSpacing / 2)),
+    ];
     
-    // Ledger lines below (C4 and below)
-    if (position <= -6) {
-      for (let p = -6; p >= position; p -= 2) {
-        ledgerLines.push(middleLineY - p * (lineSpacing / 2));
-      }
-    }
+    // Stem runs up on the right below the middle line, down on the left otherwise
+    const group = beamGroups[index] ?? null;
+    const beam = group !== null ? beams.get(group) : undefined;
+    const stemUp = beam ? beam.stemUp : position < 0;
+    const stemX = stemUp ? 9 : -9;
+    const flags = NOTE_VALUE_FLAGS[value];
+    const stemEndY = beam ? beam.beamY : noteY + (stemUp ? -1 : 1) * (stemLength + (flags > 1 ? 8 : 0));
+    const beamsToNext = group !== null && beamGroups[index + 1] === group;
+    const beamsFromPrevious = group !== null && index > 0 && beamGroups[index - 1] === group;
+    const beamInward = stemUp ? 8 : -8;
+    const hollow = value === 'whole' || value === 'half';
     
-    // Ledger lines above (A5 and above)
-    if (position >= 6) {
-      for (let p = 6; p <= position; p += 2) {
-        ledgerLines.push(middleLineY - p * (lineSpacing / 2));
-      }
-    }
+    const strokeClass = cn(
+      'transition-all duration-200',
+      status === 'correct' && 'stroke-success',
+      status === 'incorrect' && 'stroke-destructive',
+      status === 'pending' && 'stroke-staff-note'
+    );
+    const fillClass = cn(
+      'transition-all duration-200',
+      isCurrent && status === 'pending' && 'fill-accent note-glow',
+      status === 'correct' && 'fill-success',
+      status === 'incorrect' && 'fill-destructive',
+      !isCurrent && status === 'pending' && 'fill-staff-note'
+    );
     
     return (
       <g 
@@ -67,6 +119,32 @@ export function MusicStaff({ targetNotes, currentIndex, notationSystem }: MusicS
           transition: status === 'pending' ? 'transform 0.4s ease-out' : 'none'
         }}
       >
+        {/* Bar line before the first note of each measure */}
+        {rhythm && rhythm.onset === 0 && index > 0 && (
+          <line
+            x1={-noteSpacing / 2}
+            y1={staffLines[0]}
+            x2={-noteSpacing / 2}
+            y2={staffLines[4]}
+            className="stroke-staff-line"
+            strokeWidth={1.5}
+          />
+        )}
+        
+        {/* Rest */}
+        {rhythm?.isRest && (
+          <text
+            x={0}
+            y={middleLineY + lineSpacing * 0.5}
+            textAnchor="middle"
+            className="fill-staff-note musical-text"
+            fontSize={lineSpacing * 3}
+            fontFamily="serif"
+          >
+            {REST_GLYPHS[value]}
+          </text>
+        )}
+        
         {/* Ledger lines */}
         {ledgerLines.map((ly, i) => (
           <line
@@ -80,55 +158,112 @@ export function MusicStaff({ targetNotes, currentIndex, notationSystem }: MusicS
           />
         ))}
         
-        {/* Accidental symbol (sharp or flat) */}
-        {note.accidental && (
-          <text
-            x={-20}
-            y={noteY + 6}
+        {/* Accidental sign, kept clear of the notehead and any ledger lines */}
+        {accidentalGlyph && (
+          <AccidentalGlyph
+            glyph={accidentalGlyph}
+            x={-((ledgerLines.length > 0 ? 18 : 10) + 4 + (ACCIDENTAL_GLYPH_WIDTHS[accidentalGlyph] * lineSpacing) / 2)}
+            y={noteY}
+            size={lineSpacing}
             className={cn(
-              'font-bold transition-all duration-200',
-              isCurrent && status === 'pending' && 'fill-accent',
-              status === 'correct' && 'fill-success',
-              status === 'incorrect' && 'fill-destructive',
-              !isCurrent && status === 'pending' && 'fill-staff-note'
+              'transition-all duration-200',
+              isCurrent && status === 'pending' && 'text-accent',
+              status === 'correct' && 'text-success',
+              status === 'incorrect' && 'text-destructive',
+              !isCurrent && status === 'pending' && 'text-staff-note'
             )}
-            fontSize={18}
-            textAnchor="middle"
-          >
-            {note.accidental === '#' ? '♯' : '♭'}
-          </text>
+          />
         )}
         
-        {/* Note head (ellipse) */}
-        <ellipse
-          cx={0}
-          cy={noteY}
-          rx={10}
-          ry={8}
-          className={cn(
-            'transition-all duration-200',
-            isCurrent && status === 'pending' && 'fill-accent note-glow',
-            status === 'correct' && 'fill-success',
-            status === 'incorrect' && 'fill-destructive',
-            !isCurrent && status === 'pending' && 'fill-staff-note'
-          )}
-          transform={`rotate(-15 0 ${noteY})`}
-        />
+        {/* Note head (ellipse), open for halves and wholes */}
+        {!rhythm?.isRest && (
+          <ellipse
+            cx={0}
+            cy={noteY}
+            rx={10}
+            ry={8}
+            className={hollow ? cn('fill-transparent', strokeClass, isCurrent && status === 'pending' && 'stroke-accent note-glow') : fillClass}
+            strokeWidth={hollow ? 3 : undefined}
+            transform={`rotate(-15 0 ${noteY})`}
+          />
+        )}
+        
+        {/* Augmentation dot, lifted into the space when the note sits on a line */}
+        {rhythm?.duration.dotted && (
+          <circle
+            cx={rhythm.isRest ? 16 : 18}
+            cy={rhythm.isRest ? middleLineY - lineSpacing / 2 : noteY - (position % 2 === 0 ? lineSpacing / 2 : 0)}
+            r={2.5}
+            className={fillClass}
+          />
+        )}
         
         {/* Note stem */}
-        <line
-          x1={(position < 0 ? -9 : 9)}
-          y1={noteY}
-          x2={(position < 0 ? -9 : 9)}
-          y2={noteY + (position < 0 ? 50 : -50)}
-          className={cn(
-            'transition-all duration-200',
-            status === 'correct' && 'stroke-success',
-            status === 'incorrect' && 'stroke-destructive',
-            status === 'pending' && 'stroke-staff-note'
-          )}
-          strokeWidth={2}
-        />
+        {!rhythm?.isRest && value !== 'whole' && (
+          <line
+            x1={stemX}
+            y1={noteY}
+            x2={stemX}
+            y2={stemEndY}
+            className={strokeClass}
+            strokeWidth={2}
+          />
+        )}
+        
+        {/* Flags on unbeamed eighths and sixteenths */}
+        {!rhythm?.isRest && !beam && Array.from({ length: flags }, (_, i) => {
+          const y = stemEndY + (stemUp ? 1 : -1) * i * 10;
+          const dir = stemUp ? 1 : -1;
+          return (
+            <path
+              key={i}
+              d={`M ${stemX} ${y} C ${stemX + 2} ${y + dir * 10}, ${stemX + 14} ${y + dir * 14}, ${stemX + 10} ${y + dir * 26}`}
+              className={strokeClass}
+              strokeWidth={2.5}
+              fill="none"
+            />
+          );
+        })}
+        
+        {/* Beams to the next note of the group; sixteenths add a second beam or a stub */}
+        {beam && beamsToNext && (
+          <line
+            x1={stemX}
+            y1={beam.beamY}
+            x2={noteSpacing + stemX}
+            y2={beam.beamY}
+            className={strokeClass}
+            strokeWidth={5}
+          />
+        )}
+        {beam && flags > 1 && (() => {
+          const nextFlags = beamsToNext ? NOTE_VALUE_FLAGS[targetNotes[index + 1].rhythm!.duration.value] : 0;
+          const previousFlags = beamsFromPrevious ? NOTE_VALUE_FLAGS[targetNotes[index - 1].rhythm!.duration.value] : 0;
+          if (nextFlags > 1) {
+            return (
+              <line
+                x1={stemX}
+                y1={beam.beamY + beamInward}
+                x2={noteSpacing + stemX}
+                y2={beam.beamY + beamInward}
+                className={strokeClass}
+                strokeWidth={5}
+              />
+            );
+          }
+          if (previousFlags > 1) return null;
+          const stub = (beamsToNext ? 1 : -1) * noteSpacing * 0.3;
+          return (
+            <line
+              x1={stemX}
+              y1={beam.beamY + beamInward}
+              x2={stemX + stub}
+              y2={beam.beamY + beamInward}
+              className={strokeClass}
+              strokeWidth={5}
+            />
+          );
+        })()}
         
         {/* Current note indicator */}
         {isCurrent && status === 'pending' && (
@@ -175,7 +310,7 @@ export function MusicStaff({ targetNotes, currentIndex, notationSystem }: MusicS
       <div className="flex items-center gap-4 h-full">
         <div className="flex-1">
           <svg 
-            viewBox={`0 0 ${leftPadding + targetNotes.length * noteSpacing + 50} ${staffHeight}`}
+            viewBox={`0 0 ${notesStartX + targetNotes.length * noteSpacing + 50} ${staffHeight}`}
             className="w-full h-auto"
             style={{ minHeight: '180px' }}
           >
@@ -185,23 +320,57 @@ export function MusicStaff({ targetNotes, currentIndex, notationSystem }: MusicS
                 key={i}
                 x1={20}
                 y1={y}
-                x2={leftPadding + targetNotes.length * noteSpacing + 30}
+                x2={notesStartX + targetNotes.length * noteSpacing + 30}
                 y2={y}
                 className="stroke-staff-line"
                 strokeWidth={1.5}
               />
             ))}
             
-            {/* Treble clef (simplified) */}
+            {/* Clef */}
             <text
               x={35}
-              y={middleLineY + 35}
+              y={middleLineY + clef.glyphBaseline * lineSpacing}
               className="fill-staff-note musical-text"
-              fontSize={80}
+              fontSize={lineSpacing * 4}
               fontFamily="serif"
             >
-              𝄞
+              {clef.glyph}
             </text>
+            {clef.octaveMark && (
+              <text
+                x={48}
+                y={middleLineY + lineSpacing * 3.6}
+                className="fill-staff-note musical-text"
+                fontSize={lineSpacing * 0.8}
+                fontFamily="serif"
+              >
+                {clef.octaveMark}
+              </text>
+            )}
+            
+            {/* Key signature */}
+            {signature.map(({ letter, accidental, position }, i) => {
+              const glyph = getAccidentalGlyph({ letter, accidental, octave: 4 }, accidentalStyle);
+              return glyph && (
+                <AccidentalGlyph
+                  key={letter}
+                  glyph={glyph}
+                  x={signatureStartX + i * signatureSpacing}
+                  y={middleLineY - position * (lineSpacing / 2)}
+                  size={lineSpacing}
+                  className="text-staff-note"
+                />
+              );
+            })}
+            
+            {/* Time signature */}
+            {timeSignature && (
+              <g className="fill-staff-note musical-text" fontSize={lineSpacing * 2.2} fontWeight={700} fontFamily="serif">
+                <text x={timeSignatureX} y={middleLineY - 1} textAnchor="middle">{timeSignature.beats}</text>
+                <text x={timeSignatureX} y={middleLineY + lineSpacing * 2 - 1} textAnchor="middle">{timeSignature.beatValue}</text>
+              </g>
+            )}
             
             {/* Notes */}
             {targetNotes.map((targetNote, index) => renderNote(targetNote, index))}
@@ -215,7 +384,7 @@ export function MusicStaff({ targetNotes, currentIndex, notationSystem }: MusicS
         >
           {currentNote && (
             <div className="px-3 py-1 rounded-full text-sm font-medium bg-accent text-accent-foreground">
-              {formatNoteShort(currentNote, notationSystem)}{currentNote.octave}
+              {formatNote(currentNote, notationSystem)}
             </div>
           )}
         </div>
@@ -239,7 +408,12 @@ export function MusicStaff({ targetNotes, currentIndex, notationSystem }: MusicS
             )}
             style={{ width: '80px', textAlign: 'center' }}
           >
-            {formatNoteShort(targetNote.note, notationSystem)}{targetNote.note.octave}
+            {targetNote.rhythm?.isRest ? 'Rest' : formatNote(targetNote.note, notationSystem)}
+            {!targetNote.rhythm?.isRest && notationSystem === 'arabic' && getArabicNoteName(targetNote.note, 'arabic') && (
+              <span className="block text-xs font-normal" dir="rtl" lang="ar">
+                {getArabicNoteName(targetNote.note, 'arabic')}
+              </span>
+            )}
           </div>
         ))}
       </div>
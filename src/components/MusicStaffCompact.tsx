@@ -1,5 +1,10 @@
 import React from 'react';
-import { Note, formatNoteShort, NotationSystem, getStaffPosition } from '@/lib/noteUtils';
+import { Note, formatNote, NotationSystem, getStaffPosition, getLedgerLines } from '@/lib/noteUtils';
+import { AccidentalStyle, ACCIDENTAL_GLYPH_WIDTHS, getAccidentalGlyph, getStaffAccidentalGlyph } from '@/lib/accidentals';
+import { KeySignature, getKeySignatureLayout } from '@/lib/keySignatures';
+import { Clef } from '@/lib/clefs';
+import { RhythmEvent, TimeSignature, NOTE_VALUE_FLAGS, REST_GLYPHS, getBeamGroups } from '@/lib/rhythm';
+import { AccidentalGlyph } from '@/components/AccidentalGlyph';
 import { cn } from '@/lib/utils';
 import { useIsMobile } from '@/hooks/use-mobile';
 
@@ -8,15 +13,21 @@ interface TargetNote {
   status: 'pending' | 'correct' | 'incorrect';
   isNew?: boolean;
   uid?: string;
+  rhythm?: RhythmEvent;
 }
 
 interface MusicStaffCompactProps {
   targetNotes: TargetNote[];
   currentIndex: number;
   notationSystem: NotationSystem;
+  accidentalStyle: AccidentalStyle;
+  keySignature: KeySignature;
+  clef: Clef;
+  transposition: number;
+  timeSignature?: TimeSignature;
 }
 
-export function MusicStaffCompact({ targetNotes, currentIndex, notationSystem }: MusicStaffCompactProps) {
+export function MusicStaffCompact({ targetNotes, currentIndex, notationSystem, accidentalStyle, keySignature, clef, transposition, timeSignature }: MusicStaffCompactProps) {
   const staffHeight = 120;
   const lineSpacing = 12;
   const noteSpacing = 60;
@@ -44,31 +55,74 @@ export function MusicStaffCompact({ targetNotes, currentIndex, notationSystem }:
     return () => observer.disconnect();
   }, []);
   
+  // Key signature sits between the clef and the first note
+  const signature = getKeySignatureLayout(keySignature, clef);
+  const signatureStartX = 46;
+  const signatureSpacing = lineSpacing * 1.1;
+  const timeSignatureX = signatureStartX + signature.length * signatureSpacing + lineSpacing * 0.6;
+  const timeSignatureWidth = timeSignature ? lineSpacing * 1.6 : 0;
+  const notesStartX = leftPadding + signature.length * signatureSpacing + timeSignatureWidth;
+  
+  // Stems and beams: a beamed group shares one stem direction and a flat beam
+  const stemLength = 30;
+  const positions = targetNotes.map(t => getStaffPosition(t.note, clef, transposition));
+  const beamGroups = timeSignature ? getBeamGroups(targetNotes.map(t => t.rhythm), timeSignature) : [];
+  const beams = new Map<number, { stemUp: boolean; beamY: number }>();
+  beamGroups.forEach((group, i) => {
+    if (group === null || beams.has(group)) return;
+    const members = positions.filter((_, j) => beamGroups[j] === group);
+    const stemUp = members.reduce((sum, p) => sum + p, 0) / members.length < 0;
+    const ys = members.map(p => middleLineY - p * (lineSpacing / 2));
+    beams.set(group, {
+      stemUp,
+      beamY: stemUp ? Math.min(...ys) - stemLength : Math.max(...ys) + stemLength,
+    });
+  });
+  
   // Staff lines Y positions (5 lines)
   const staffLines = [-2, -1, 0, 1, 2].map(i => middleLineY + i * lineSpacing);
   
   const renderNote = (targetNote: TargetNote, index: number) => {
-    const { note, status, isNew } = targetNote;
+    const { note, status, isNew, rhythm } = targetNote;
     const isCurrent = index === currentIndex;
+    const value = rhythm?.duration.value ?? 'quarter';
     
-    const position = getStaffPosition(note);
+    const position = positions[index];
     const noteY = middleLineY - position * (lineSpacing / 2);
-    const noteX = leftPadding + index * noteSpacing;
+    const noteX = notesStartX + index * noteSpacing;
+    const accidentalGlyph = rhythm?.isRest ? null : getStaffAccidentalGlyph(note, accidentalStyle, keySignature);
     
-    // Check if we need ledger lines
-    const ledgerLines: number[] = [];
+    // Ledger lines on every even position from +/-6 outwards
+    const { above, below } = rhythm?.isRest ? { above: 0, below: 0 } : getLedgerLines(note, clef, transposition);
+    const ledgerLines = [
+      ...Array.from({ length: above }, (_, i) => middleLineY - (6 + i * 2) * (lineSpacing / 2)),
+      ...Array.from({ length: below }, (_, i) => middleLineY + (6 + i * 2) * (lineSpacing / 2)),
+    ];
     
-    if (position <= -6) {
-      for (let p = -6; p >= position; p -= 2) {
-        ledgerLines.push(middleLineY - p * (lineSpacing / 2));
-      }
-    }
+    const group = beamGroups[index] ?? null;
+    const beam = group !== null ? beams.get(group) : undefined;
+    const stemUp = beam ? beam.stemUp : position < 0;
+    const stemX = stemUp ? 5 : -5;
+    const flags = NOTE_VALUE_FLAGS[value];
+    const stemEndY = beam ? beam.beamY : noteY + (stemUp ? -1 : 1) * (stemLength + (flags > 1 ? 5 : 0));
+    const beamsToNext = group !== null && beamGroups[index + 1] === group;
+    const beamsFromPrevious = group !== null && index > 0 && beamGroups[index - 1] === group;
+    const beamInward = stemUp ? 5 : -5;
+    const hollow = value === 'whole' || value === 'half';
     
-    if (position >= 6) {
-      for (let p = 6; p <= position; p += 2) {
-        ledgerLines.push(middleLineY - p * (lineSpacing / 2));
-      }
-    }
+    const strokeClass = cn(
+      'transition-all duration-200',
+      status === 'correct' && 'stroke-success',
+      status === 'incorrect' && 'stroke-destructive',
+      status === 'pending' && 'stroke-staff-note'
+    );
+    const fillClass = cn(
+      'transition-all duration-200',
+      isCurrent && status === 'pending' && 'fill-accent note-glow',
+      status === 'correct' && 'fill-success',
+      status === 'incorrect' && 'fill-destructive',
+      !isCurrent && status === 'pending' && 'fill-staff-note'
+    );
     
     return (
       <g 
@@ -82,6 +136,32 @@ export function MusicStaffCompact({ targetNotes, currentIndex, notationSystem }:
           transition: status === 'pending' ? 'transform 0.4s ease-out' : 'none'
         }}
       >
+        {/* Bar line */}
+        {rhythm && rhythm.onset === 0 && index > 0 && (
+          <line
+            x1={-noteSpacing / 2}
+            y1={staffLines[0]}
+            x2={-noteSpacing / 2}
+            y2={staffLines[4]}
+            className="stroke-staff-line"
+            strokeWidth={1}
+          />
+        )}
+        
+        {/* Rest */}
+        {rhythm?.isRest && (
+          <text
+            x={0}
+            y={middleLineY + lineSpacing * 0.5}
+            textAnchor="middle"
+            className="fill-staff-note musical-text"
+            fontSize={lineSpacing * 3}
+            fontFamily="serif"
+          >
+            {REST_GLYPHS[value]}
+          </text>
+        )}
+        
         {/* Ledger lines */}
         {ledgerLines.map((ly, i) => (
           <line
@@ -95,55 +175,112 @@ export function MusicStaffCompact({ targetNotes, currentIndex, notationSystem }:
           />
         ))}
         
-        {/* Accidental symbol */}
-        {note.accidental && (
-          <text
-            x={-12}
-            y={noteY + 4}
+        {/* Accidental sign */}
+        {accidentalGlyph && (
+          <AccidentalGlyph
+            glyph={accidentalGlyph}
+            x={-((ledgerLines.length > 0 ? 10 : 6) + 2 + (ACCIDENTAL_GLYPH_WIDTHS[accidentalGlyph] * lineSpacing) / 2)}
+            y={noteY}
+            size={lineSpacing}
             className={cn(
-              'font-bold transition-all duration-200',
-              isCurrent && status === 'pending' && 'fill-accent',
-              status === 'correct' && 'fill-success',
-              status === 'incorrect' && 'fill-destructive',
-              !isCurrent && status === 'pending' && 'fill-staff-note'
+              'transition-all duration-200',
+              isCurrent && status === 'pending' && 'text-accent',
+              status === 'correct' && 'text-success',
+              status === 'incorrect' && 'text-destructive',
+              !isCurrent && status === 'pending' && 'text-staff-note'
             )}
-            fontSize={12}
-            textAnchor="middle"
-          >
-            {note.accidental === '#' ? '♯' : '♭'}
-          </text>
+          />
         )}
         
         {/* Note head */}
-        <ellipse
-          cx={0}
-          cy={noteY}
-          rx={6}
-          ry={5}
-          className={cn(
-            'transition-all duration-200',
-            isCurrent && status === 'pending' && 'fill-accent note-glow',
-            status === 'correct' && 'fill-success',
-            status === 'incorrect' && 'fill-destructive',
-            !isCurrent && status === 'pending' && 'fill-staff-note'
-          )}
-          transform={`rotate(-15 0 ${noteY})`}
-        />
+        {!rhythm?.isRest && (
+          <ellipse
+            cx={0}
+            cy={noteY}
+            rx={6}
+            ry={5}
+            className={hollow ? cn('fill-transparent', strokeClass, isCurrent && status === 'pending' && 'stroke-accent note-glow') : fillClass}
+            strokeWidth={hollow ? 2 : undefined}
+            transform={`rotate(-15 0 ${noteY})`}
+          />
+        )}
+        
+        {/* Augmentation dot */}
+        {rhythm?.duration.dotted && (
+          <circle
+            cx={rhythm.isRest ? 10 : 11}
+            cy={rhythm.isRest ? middleLineY - lineSpacing / 2 : noteY - (position % 2 === 0 ? lineSpacing / 2 : 0)}
+            r={1.5}
+            className={fillClass}
+          />
+        )}
         
         {/* Note stem */}
-        <line
-          x1={(position < 0 ? -5 : 5)}
-          y1={noteY}
-          x2={(position < 0 ? -5 : 5)}
-          y2={noteY + (position < 0 ? 30 : -30)}
-          className={cn(
-            'transition-all duration-200',
-            status === 'correct' && 'stroke-success',
-            status === 'incorrect' && 'stroke-destructive',
-            status === 'pending' && 'stroke-staff-note'
-          )}
-          strokeWidth={1.5}
-        />
+        {!rhythm?.isRest && value !== 'whole' && (
+          <line
+            x1={stemX}
+            y1={noteY}
+            x2={stemX}
+            y2={stemEndY}
+            className={strokeClass}
+            strokeWidth={1.5}
+          />
+        )}
+        
+        {/* Flags */}
+        {!rhythm?.isRest && !beam && Array.from({ length: flags }, (_, i) => {
+          const y = stemEndY + (stemUp ? 1 : -1) * i * 6;
+          const dir = stemUp ? 1 : -1;
+          return (
+            <path
+              key={i}
+              d={`M ${stemX} ${y} C ${stemX + 1} ${y + dir * 6}, ${stemX + 8} ${y + dir * 8}, ${stemX + 6} ${y + dir * 16}`}
+              className={strokeClass}
+              strokeWidth={1.5}
+              fill="none"
+            />
+          );
+        })}
+        
+        {/* Beams */}
+        {beam && beamsToNext && (
+          <line
+            x1={stemX}
+            y1={beam.beamY}
+            x2={noteSpacing + stemX}
+            y2={beam.beamY}
+            className={strokeClass}
+            strokeWidth={3}
+          />
+        )}
+        {beam && flags > 1 && (() => {
+          const nextFlags = beamsToNext ? NOTE_VALUE_FLAGS[targetNotes[index + 1].rhythm!.duration.value] : 0;
+          const previousFlags = beamsFromPrevious ? NOTE_VALUE_FLAGS[targetNotes[index - 1].rhythm!.duration.value] : 0;
+          if (nextFlags > 1) {
+            return (
+              <line
+                x1={stemX}
+                y1={beam.beamY + beamInward}
+                x2={noteSpacing + stemX}
+                y2={beam.beamY + beamInward}
+                className={strokeClass}
+                strokeWidth={3}
+              />
+            );
+          }
+          if (previousFlags > 1) return null;
+          const stub = (beamsToNext ? 1 : -1) * noteSpacing * 0.3;
+          return (
+            <line
+              x1={stemX}
+              y1={beam.beamY + beamInward}
+              x2={stemX + stub}
+              y2={beam.beamY + beamInward}
+              className={strokeClass}
+              strokeWidth={3}
+            />
+          );
+        })()}
         
         {/* Current note indicator */}
         {isCurrent && status === 'pending' && (
@@ -169,7 +306,7 @@ export function MusicStaffCompact({ targetNotes, currentIndex, notationSystem }:
       >
         <div className="flex-1 h-full flex flex-col justify-center">
           <svg 
-            viewBox={`0 0 ${leftPadding + targetNotes.length * noteSpacing + 20} ${staffHeight}`}
+            viewBox={`0 0 ${notesStartX + targetNotes.length * noteSpacing + 20} ${staffHeight}`}
             className="w-full h-full"
             preserveAspectRatio="xMidYMid meet"
           >
@@ -179,23 +316,57 @@ export function MusicStaffCompact({ targetNotes, currentIndex, notationSystem }:
                 key={i}
                 x1={10}
                 y1={y}
-                x2={leftPadding + targetNotes.length * noteSpacing + 10}
+                x2={notesStartX + targetNotes.length * noteSpacing + 10}
                 y2={y}
                 className="stroke-staff-line"
                 strokeWidth={1}
               />
             ))}
             
-            {/* Treble clef */}
+            {/* Clef */}
             <text
               x={20}
-              y={middleLineY + 22}
+              y={middleLineY + clef.glyphBaseline * lineSpacing}
               className="fill-staff-note musical-text"
-              fontSize={48}
+              fontSize={lineSpacing * 4}
               fontFamily="serif"
             >
-              𝄞
+              {clef.glyph}
             </text>
+            {clef.octaveMark && (
+              <text
+                x={28}
+                y={middleLineY + lineSpacing * 3.6}
+                className="fill-staff-note musical-text"
+                fontSize={lineSpacing * 0.8}
+                fontFamily="serif"
+              >
+                {clef.octaveMark}
+              </text>
+            )}
+            
+            {/* Key signature */}
+            {signature.map(({ letter, accidental, position }, i) => {
+              const glyph = getAccidentalGlyph({ letter, accidental, octave: 4 }, accidentalStyle);
+              return glyph && (
+                <AccidentalGlyph
+                  key={letter}
+                  glyph={glyph}
+                  x={signatureStartX + i * signatureSpacing}
+                  y={middleLineY - position * (lineSpacing / 2)}
+                  size={lineSpacing}
+                  className="text-staff-note"
+                />
+              );
+            })}
+            
+            {/* Time signature */}
+            {timeSignature && (
+              <g className="fill-staff-note musical-text" fontSize={lineSpacing * 2.2} fontWeight={700} fontFamily="serif">
+                <text x={timeSignatureX} y={middleLineY - 1} textAnchor="middle">{timeSignature.beats}</text>
+                <text x={timeSignatureX} y={middleLineY + lineSpacing * 2 - 1} textAnchor="middle">{timeSignature.beatValue}</text>
+              </g>
+            )}
             
             {/* Notes */}
             {targetNotes.map((targetNote, index) => renderNote(targetNote, index))}
@@ -209,7 +380,7 @@ export function MusicStaffCompact({ targetNotes, currentIndex, notationSystem }:
         >
           {currentNote && (
             <div className="px-2 py-0.5 rounded text-xs font-medium bg-accent text-accent-foreground">
-              {formatNoteShort(currentNote, notationSystem)}{currentNote.octave}
+              {formatNote(currentNote, notationSystem)}
             </div>
           )}
         </div>
@@ -232,7 +403,7 @@ export function MusicStaffCompact({ targetNotes, currentIndex, notationSystem }:
               targetNote.status === 'pending' && index !== currentIndex && 'text-muted-foreground'
             )}
           >
-            {formatNoteShort(targetNote.note, notationSystem)}{targetNote.note.octave}
+            {targetNote.rhythm?.isRest ? 'Rest' : formatNote(targetNote.note, notationSystem)}
           </div>
         ))}
       </div>
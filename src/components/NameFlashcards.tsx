@@ -0,0 +1,71 @@
+import React, { useMemo } from 'react';
+import { Flame } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Settings } from '@/lib/settings';
+import { Note, formatNote, getCandidateNotes } from '@/lib/noteUtils';
+import { KeySignature } from '@/lib/keySignatures';
+import { FlashcardStats, getNameChoices, noteForChoice, weakestNotes } from '@/lib/flashcards';
+import { cn } from '@/lib/utils';
+
+interface NameFlashcardsProps {
+  settings: Settings;
+  keySignature: KeySignature;
+  target?: { note: Note; status: 'pending' | 'correct' | 'incorrect' };
+  stats: FlashcardStats;
+  onAnswer: (note: Note) => void;
+  compact?: boolean;
+  className?: string;
+}
+
+// How many of the weakest notes the statistics list
+const WEAKEST_SHOWN = 5;
+
+// Answer pad for naming the note on the staff, with streak and per-note statistics
+export function NameFlashcards({ settings, keySignature, target, stats, onAnswer, compact = false, className }: NameFlashcardsProps) {
+  // The names of every note randomNoteInRange can show
+  const choices = useMemo(() => {
+    const candidates = getCandidateNotes(settings.lowestNote, settings.highestNote, settings.includeAccidentals, settings.includeQuarterTones, keySignature);
+    return getNameChoices(candidates, settings.notationSystem, settings.flashcardOctave);
+  }, [settings.lowestNote, settings.highestNote, settings.includeAccidentals, settings.includeQuarterTones, keySignature, settings.notationSystem, settings.flashcardOctave]);
+  const weakest = weakestNotes(stats).slice(0, WEAKEST_SHOWN);
+
+  return (
+    <div className={cn('flex flex-col gap-3', compact && 'gap-1', className)}>
+      <div className={cn('flex items-center justify-between text-muted-foreground', compact ? 'text-xs' : 'text-sm')}>
+        <span className="flex items-center gap-1">
+          <Flame className={cn('w-4 h-4', stats.streak > 0 && 'text-accent')} />
+          {stats.streak} streak · best {stats.bestStreak}
+        </span>
+        {stats.lastMs !== null && <span className="tabular-nums">{(stats.lastMs / 1000).toFixed(1)} s</span>}
+      </div>
+      <div className={cn('grid gap-1.5', compact ? 'grid-cols-6 sm:grid-cols-8' : 'grid-cols-4 sm:grid-cols-6 md:grid-cols-8')}>
+        {choices.map(choice => (
+          <Button
+            key={choice.label}
+            variant="outline"
+            size="sm"
+            className={cn('font-medium', compact && 'h-7 px-1 text-xs')}
+            disabled={!target || target.status !== 'pending'}
+            onClick={() => target && onAnswer(noteForChoice(choice, target.note))}
+          >
+            {choice.label}
+          </Button>
+        ))}
+      </div>
+      {!compact && weakest.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs font-medium text-muted-foreground">Needs practice</div>
+          {weakest.map(s => (
+            <div key={formatNote(s.note, 'letters')} className="flex items-center justify-between text-sm">
+              <span className="font-medium">{formatNote(s.note, settings.notationSystem)}</span>
+              <span className="text-muted-foreground tabular-nums">
+                {s.correct}/{s.attempts}
+                {s.correct > 0 && ` · ${(s.totalMs / s.correct / 1000).toFixed(1)} s`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { Note, formatNoteShort, NotationSystem, noteToMidi, midiToNote, notesEqual } from '@/lib/noteUtils';
+import { Note, formatNote, formatNoteShort, NotationSystem, noteToMidi, midiToNote, notesEqual } from '@/lib/noteUtils';
 import { audioEngine } from '@/lib/audioEngine';
+import { getKeySignature } from '@/lib/keySignatures';
 import { Settings, StringConfig } from '@/lib/settings';
 import { cn } from '@/lib/utils';
 import { Lightbulb, LightbulbOff } from 'lucide-react';
@@ -113,9 +114,11 @@ export function OudVisualization({ settings, onNotePlayed, externalLastPlayedNot
     if (x >= neckStartX && x <= neckEndX) {
       // Fingerboard area - calculate semitone offset
       const xRatio = (x - neckStartX) / fingerboardWidth;
-      const semitoneOffset = Math.round(xRatio * MAX_SEMITONES);
+      // The oud is fretless: allow quarter-tone positions when practising maqam notes
+      const step = settings.includeQuarterTones ? 0.5 : 1;
+      const semitoneOffset = Math.round((xRatio * MAX_SEMITONES) / step) * step;
       const playedMidi = openMidi + semitoneOffset;
-      playedNote = midiToNote(playedMidi);
+      playedNote = midiToNote(playedMidi, getKeySignature(settings.keySignatureId));
     } else if (x > neckEndX) {
       // Strumming area - play open string
       playedNote = stringConfig.openNote;
@@ -124,7 +127,7 @@ export function OudVisualization({ settings, onNotePlayed, externalLastPlayedNot
     }
     
     // Play the sound
-    audioEngine.playNote(playedNote);
+    audioEngine.playNote(playedNote, undefined, { course: stringConfig, courseIndex: closestString });
     
     // Set the last played note for display
     setLastPlayedNote(playedNote);
@@ -143,7 +146,7 @@ export function OudVisualization({ settings, onNotePlayed, externalLastPlayedNot
     
     // Notify parent
     onNotePlayed(playedNote);
-  }, [activeStrings, stringCount, onNotePlayed, fingerboardWidth, stringSpacing]);
+  }, [activeStrings, stringCount, onNotePlayed, fingerboardWidth, stringSpacing, settings.includeQuarterTones, settings.keySignatureId]);
   
   // Render position markers for hints
   const renderPositionMarkers = () => {
@@ -220,7 +223,7 @@ export function OudVisualization({ settings, onNotePlayed, externalLastPlayedNot
             <div className={`${expectedNote ? (notesEqual(lastPlayedNote, expectedNote) ? 'bg-success/20 border border-success' : 'bg-destructive/20 border border-destructive') : 'bg-accent/20 border border-accent'} rounded-lg px-5 py-3 flex items-center gap-3 animate-in fade-in duration-200`}>
               <span className="text-sm text-muted-foreground">Played:</span>
               <span className={`text-3xl font-bold ${expectedNote ? (notesEqual(lastPlayedNote, expectedNote) ? 'text-success' : 'text-destructive') : 'text-accent'}`}>
-                {formatNoteShort(lastPlayedNote, notationSystem)}{lastPlayedNote.octave}
+                {formatNote(lastPlayedNote, notationSystem)}
               </span>
             </div>
           )}
@@ -386,8 +389,12 @@ export function OudVisualization({ settings, onNotePlayed, externalLastPlayedNot
                   className="fill-accent font-semibold"
                   fontSize={12}
                 >
-                  {formatNoteShort(stringConfig.openNote, notationSystem)}
-                  <tspan fontSize={9}>{stringConfig.openNote.octave}</tspan>
+                  {notationSystem === 'arabic' ? formatNote(stringConfig.openNote, notationSystem) : (
+                    <>
+                      {formatNoteShort(stringConfig.openNote, notationSystem)}
+                      <tspan fontSize={9}>{stringConfig.openNote.octave}</tspan>
+                    </>
+                  )}
                 </text>
               )}
             </g>
@@ -1,6 +1,7 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { Note, formatNoteShort, NotationSystem, noteToMidi, midiToNote, notesEqual } from '@/lib/noteUtils';
+import { Note, formatNote, formatNoteShort, NotationSystem, noteToMidi, midiToNote, notesEqual } from '@/lib/noteUtils';
 import { audioEngine } from '@/lib/audioEngine';
+import { getKeySignature } from '@/lib/keySignatures';
 import { Settings, StringConfig } from '@/lib/settings';
 import { cn } from '@/lib/utils';
 import { Lightbulb, LightbulbOff } from 'lucide-react';
@@ -130,16 +131,18 @@ export function OudVisualizationCompact({
     
     if (x >= neckStartX && x <= neckEndX) {
       const xRatio = (x - neckStartX) / fingerboardWidth;
-      const semitoneOffset = Math.round(xRatio * MAX_SEMITONES);
+      // The oud is fretless: allow quarter-tone positions when practising maqam notes
+      const step = settings.includeQuarterTones ? 0.5 : 1;
+      const semitoneOffset = Math.round((xRatio * MAX_SEMITONES) / step) * step;
       const playedMidi = openMidi + semitoneOffset;
-      playedNote = midiToNote(playedMidi);
+      playedNote = midiToNote(playedMidi, getKeySignature(settings.keySignatureId));
     } else if (x > neckEndX) {
       playedNote = stringConfig.openNote;
     } else {
       return;
     }
     
-    audioEngine.playNote(playedNote);
+    audioEngine.playNote(playedNote, undefined, { course: stringConfig, courseIndex: closestString });
     onLastPlayedNoteChange(playedNote);
     
     const rippleId = ++rippleIdRef.current;
@@ -153,7 +156,7 @@ export function OudVisualizationCompact({
     }, 300);
     
     onNotePlayed(playedNote);
-  }, [activeStrings, stringCount, onNotePlayed, onLastPlayedNoteChange, fingerboardWidth, stringSpacing]);
+  }, [activeStrings, stringCount, onNotePlayed, onLastPlayedNoteChange, fingerboardWidth, stringSpacing, settings.includeQuarterTones, settings.keySignatureId]);
   
   const renderPositionMarkers = () => {
     if (!hintsEnabled) return null;
@@ -215,7 +218,7 @@ export function OudVisualizationCompact({
         {lastPlayedNote && (
           <div className={`${expectedNote ? (notesEqual(lastPlayedNote, expectedNote) ? 'bg-success/20 border border-success' : 'bg-destructive/20 border border-destructive') : 'bg-accent/20 border border-accent'} rounded px-2 py-0.5 flex items-center gap-1 animate-in fade-in duration-200`}>
             <span className={`text-lg font-bold ${expectedNote ? (notesEqual(lastPlayedNote, expectedNote) ? 'text-success' : 'text-destructive') : 'text-accent'}`}>
-              {formatNoteShort(lastPlayedNote, notationSystem)}{lastPlayedNote.octave}
+              {formatNote(lastPlayedNote, notationSystem)}
             </span>
           </div>
         )}
@@ -355,8 +358,12 @@ export function OudVisualizationCompact({
                     className="fill-accent font-semibold"
                     fontSize={10}
                   >
-                    {formatNoteShort(stringConfig.openNote, notationSystem)}
-                    <tspan fontSize={7}>{stringConfig.openNote.octave}</tspan>
+                    {notationSystem === 'arabic' ? formatNote(stringConfig.openNote, notationSystem) : (
+                      <>
+                        {formatNoteShort(stringConfig.openNote, notationSystem)}
+                        <tspan fontSize={7}>{stringConfig.openNote.octave}</tspan>
+                      </>
+                    )}
                   </text>
                 )}
               </g>
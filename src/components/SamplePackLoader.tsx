@@ -0,0 +1,82 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FolderOpen, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { audioEngine } from '@/lib/audioEngine';
+import { SamplePack, sampleLibrary } from '@/lib/sampleLibrary';
+import { toast } from 'sonner';
+
+// Status of the sample pack, with loading one from disk and removing it
+export function SamplePackLoader() {
+  const [pack, setPack] = useState<SamplePack | null>(sampleLibrary.getPack());
+  const [busy, setBusy] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const unsubscribe = sampleLibrary.onChange(setPack);
+    const output = audioEngine.getOutput();
+    if (output && !sampleLibrary.getPack()) {
+      setBusy(true);
+      sampleLibrary.ensureLoaded(output.context).finally(() => setBusy(false));
+    }
+    return unsubscribe;
+  }, []);
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    const output = audioEngine.getOutput();
+    if (files.length === 0 || !output) return;
+    setBusy(true);
+    try {
+      const loaded = await sampleLibrary.importFiles(output.context, files);
+      toast.success(`Loaded ${loaded.zones.length} samples from ${loaded.name}`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Could not load the samples');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setBusy(true);
+    try {
+      await sampleLibrary.removeUserPack();
+      toast('Sample pack removed');
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Could not remove the samples');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        {busy
+          ? 'Loading samples…'
+          : pack
+            ? `${pack.name}: ${pack.zones.length} samples`
+            : 'No samples loaded; the plucked-string voice plays instead.'}
+      </p>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1 gap-2" disabled={busy} onClick={() => inputRef.current?.click()}>
+          <FolderOpen className="w-4 h-4" />
+          Load Sample Pack
+        </Button>
+        {pack && (
+          <Button variant="outline" size="sm" disabled={busy} onClick={handleRemove} aria-label="Remove sample pack">
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="audio/*,.json"
+        multiple
+        className="hidden"
+        onChange={handleFiles}
+      />
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   Sheet,
   SheetContent,
@@ -18,25 +18,54 @@ import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { Switch } from '@/components/ui/switch';
-import { Settings, DEFAULT_SETTINGS, validateNoteRange, getAllNotes } from '@/lib/settings';
-import { Note, NotationSystem, formatNote, noteToMidi } from '@/lib/noteUtils';
+import { Input } from '@/components/ui/input';
+import { TuningDetector } from '@/components/TuningDetector';
+import { SamplePackLoader } from '@/components/SamplePackLoader';
+import { Settings, StringConfig, DEFAULT_SETTINGS, validateNoteRange, getAllNotes, noteKey } from '@/lib/settings';
+import { Note, NotationSystem, PitchGrid, formatNote, formatNoteShort, noteToMidi, midiToNote } from '@/lib/noteUtils';
+import { AccidentalStyle } from '@/lib/accidentals';
+import { TuningId, BUILT_IN_TUNINGS, TUNING_PITCH_CLASSES, pitchClassKey } from '@/lib/tuning';
+import { KeySignatureId, KEY_SIGNATURES, getKeySignature } from '@/lib/keySignatures';
+import { ClefId, CLEFS } from '@/lib/clefs';
+import { NoteValue, NOTE_VALUES, TimeSignatureId, TIME_SIGNATURES, getTimeSignature } from '@/lib/rhythm';
+import { ACCENT_LEVELS, defaultAccentPattern } from '@/lib/metronome';
+import { IqaId, IQAAT } from '@/lib/iqaPlayer';
+import { PitchAlgorithm } from '@/lib/pitchAlgorithms';
+import { InstrumentVoice } from '@/lib/audioEngine';
+import { TuningPresetId, TUNING_PRESETS, findTuningPreset, getTuningPreset } from '@/lib/tuningPresets';
 import { Settings as SettingsIcon, RotateCcw } from 'lucide-react';
 import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
 
 interface SettingsPanelProps {
   settings: Settings;
   onSettingsChange: (settings: Settings) => void;
+  onDetectingTuningChange?: (detecting: boolean) => void;
 }
 
 const allNotes = getAllNotes();
 
-export function SettingsPanel({ settings, onSettingsChange }: SettingsPanelProps) {
+type CourseType = 'single' | 'double' | 'octave';
+
+function getCourseType(string: StringConfig): CourseType {
+  if (string.courseCount < 2) return 'single';
+  return string.octaveNote ? 'octave' : 'double';
+}
+
+export function SettingsPanel({ settings, onSettingsChange, onDetectingTuningChange }: SettingsPanelProps) {
+  // Custom cents being typed, by pitch class; committed on blur, otherwise the table shows
+  const [centsDrafts, setCentsDrafts] = useState<Record<string, string>>({});
+  
   const handleStringCountChange = (value: string) => {
     const count = parseInt(value);
     // Ensure we have enough string configs
     const newStrings = [...settings.strings];
     while (newStrings.length < count) {
-      newStrings.push({ ...DEFAULT_SETTINGS.strings[newStrings.length] });
+      // Past the default six courses, add another double course a fourth above the last
+      const last = newStrings[newStrings.length - 1];
+      newStrings.push(DEFAULT_SETTINGS.strings[newStrings.length]
+        ? { ...DEFAULT_SETTINGS.strings[newStrings.length] }
+        : { openNote: midiToNote(noteToMidi(last.openNote) + 5, getKeySignature('eb-major')), courseCount: 2 });
     }
     onSettingsChange({ ...settings, stringCount: count, strings: newStrings });
   };
@@ -49,17 +78,48 @@ export function SettingsPanel({ settings, onSettingsChange }: SettingsPanelProps
     const noteInfo = allNotes.find(n => n.display === noteStr);
     if (noteInfo) {
       const newStrings = [...settings.strings];
-      newStrings[stringIndex] = { ...newStrings[stringIndex], openNote: noteInfo.note };
+      const { octaveNote } = newStrings[stringIndex];
+      newStrings[stringIndex] = {
+        ...newStrings[stringIndex],
+        openNote: noteInfo.note,
+        // An octave pair follows its lower string
+        ...(octaveNote && { octaveNote: { ...noteInfo.note, octave: noteInfo.note.octave + 1 } }),
+      };
       onSettingsChange({ ...settings, strings: newStrings });
     }
   };
   
-  const handleCourseCountChange = (stringIndex: number, count: string) => {
+  const handleCourseTypeChange = (stringIndex: number, type: CourseType) => {
     const newStrings = [...settings.strings];
-    newStrings[stringIndex] = { ...newStrings[stringIndex], courseCount: parseInt(count) };
+    const { openNote } = newStrings[stringIndex];
+    newStrings[stringIndex] = {
+      openNote,
+      courseCount: type === 'single' ? 1 : 2,
+      ...(type === 'octave' && { octaveNote: { ...openNote, octave: openNote.octave + 1 } }),
+    };
     onSettingsChange({ ...settings, strings: newStrings });
   };
   
+  const handleOctaveNoteChange = (stringIndex: number, noteStr: string) => {
+    const noteInfo = allNotes.find(n => n.display === noteStr);
+    if (noteInfo) {
+      const newStrings = [...settings.strings];
+      newStrings[stringIndex] = { ...newStrings[stringIndex], octaveNote: noteInfo.note };
+      onSettingsChange({ ...settings, strings: newStrings });
+    }
+  };
+  
+  const handlePresetChange = (id: TuningPresetId) => {
+    const preset = getTuningPreset(id);
+    if (preset) {
+      onSettingsChange({
+        ...settings,
+        strings: preset.strings.map(s => ({ ...s })),
+        stringCount: preset.strings.length,
+      });
+    }
+  };
+  
   const handleRangeChange = (type: 'lowest' | 'highest', noteStr: string) => {
     const noteInfo = allNotes.find(n => n.display === noteStr);
     if (noteInfo) {
@@ -91,12 +151,48 @@ export function SettingsPanel({ settings, onSettingsChange }: SettingsPanelProps
     }
   };
   
+  const handleCustomCentsChange = (key: string, value: string) => {
+    setCentsDrafts(({ [key]: _, ...rest }) => rest);
+    const cents = parseFloat(value);
+    if (isNaN(cents)) return;
+    onSettingsChange({
+      ...settings,
+      customTuningCents: { ...settings.customTuningCents, [key]: cents },
+    });
+  };
+  
+  const handleNoteValueToggle = (value: NoteValue) => {
+    const noteValues = settings.noteValues.includes(value)
+      ? settings.noteValues.filter(v => v !== value)
+      : [...settings.noteValues, value];
+    if (noteValues.length === 0) {
+      toast.error('Keep at least one note value');
+      return;
+    }
+    onSettingsChange({ ...settings, noteValues });
+  };
+  
+  // Tapping a beat cycles strong -> medium -> weak -> mute
+  const handleAccentToggle = (beat: number) => {
+    const accents = [...metronomeAccents];
+    accents[beat] = ACCENT_LEVELS[(ACCENT_LEVELS.indexOf(accents[beat]) + 1) % ACCENT_LEVELS.length];
+    onSettingsChange({ ...settings, metronomeAccents: accents });
+  };
+  
   const handleReset = () => {
     onSettingsChange({ ...DEFAULT_SETTINGS });
     toast.success('Settings reset to defaults');
   };
   
-  const noteToString = (note: Note) => `${note.letter}${note.octave}`;
+  // Dropdown value for a note, matching other spellings of the same pitch (F# for Gb)
+  const noteToString = (note: Note) =>
+    noteKey(allNotes.find(n => noteToMidi(n.note) === noteToMidi(note))?.note ?? note);
+  const activePreset = findTuningPreset(settings.strings.slice(0, settings.stringCount));
+  
+  const meter = getTimeSignature(settings.timeSignatureId);
+  const metronomeAccents = settings.metronomeAccents?.length === meter.beats
+    ? settings.metronomeAccents
+    : defaultAccentPattern(meter);
   
   return (
     <Sheet>
@@ -124,10 +220,112 @@ export function SettingsPanel({ settings, onSettingsChange }: SettingsPanelProps
               <SelectContent>
                 <SelectItem value="solfege">Do Re Mi Fa Sol La Si</SelectItem>
                 <SelectItem value="letters">A B C D E F G</SelectItem>
+                <SelectItem value="arabic">Rast Dugah Sikah (راست دوكاه سيكاه)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          
+          {/* Accidental Style */}
+          <div className="space-y-2">
+            <Label>Accidental Signs</Label>
+            <Select
+              value={settings.accidentalStyle}
+              onValueChange={(v: AccidentalStyle) => onSettingsChange({ ...settings, accidentalStyle: v })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="arabic">Arabic (quarter tones)</SelectItem>
+                <SelectItem value="turkish">Turkish AEU (commas)</SelectItem>
               </SelectContent>
             </Select>
           </div>
           
+          {/* Playback Voice */}
+          <div className="space-y-2">
+            <Label>Playback Voice</Label>
+            <p className="text-xs text-muted-foreground">Sound of the notes played when tapping the oud</p>
+            <Select
+              value={settings.instrumentVoice}
+              onValueChange={(v: InstrumentVoice) => onSettingsChange({ ...settings, instrumentVoice: v })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="oud">Oud (plucked string)</SelectItem>
+                <SelectItem value="samples">Oud (recorded samples)</SelectItem>
+                <SelectItem value="synth">Simple synth</SelectItem>
+              </SelectContent>
+            </Select>
+            {settings.instrumentVoice === 'samples' && <SamplePackLoader />}
+          </div>
+          
+          {/* Reference Pitch */}
+          <div className="space-y-2">
+            <Label>Reference Pitch (A4)</Label>
+            <p className="text-xs text-muted-foreground">Used for playback and mic matching</p>
+            <Select
+              value={settings.referencePitch.toString()}
+              onValueChange={(v) => onSettingsChange({ ...settings, referencePitch: parseInt(v) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[415, 430, 432, 435, 438, 439, 440, 441, 442, 443, 444, 446].map(n => (
+                  <SelectItem key={n} value={n.toString()}>{n} Hz</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          
+          {/* Temperament */}
+          <div className="space-y-2">
+            <Label>Temperament</Label>
+            <p className="text-xs text-muted-foreground">Tuning table for playback and intonation</p>
+            <Select
+              value={settings.tuningId}
+              onValueChange={(v: TuningId) => onSettingsChange({ ...settings, tuningId: v })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(BUILT_IN_TUNINGS).map(t => (
+                  <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                ))}
+                <SelectItem value="custom">Custom cents table</SelectItem>
+              </SelectContent>
+            </Select>
+            
+            {settings.tuningId === 'custom' && (
+              <div className="grid grid-cols-2 gap-2 pt-1">
+                {TUNING_PITCH_CLASSES.map(pc => {
+                  const key = pitchClassKey(pc);
+                  const cents = settings.customTuningCents[key] ?? BUILT_IN_TUNINGS['24-tet'].cents[key];
+                  return (
+                    <div key={key} className="flex items-center gap-2">
+                      <span className="text-sm w-10 text-muted-foreground">
+                        {formatNoteShort({ ...pc, octave: 4 }, settings.notationSystem)}
+                      </span>
+                      <Input
+                        type="number"
+                        step={0.1}
+                        className="h-8"
+                        value={centsDrafts[key] ?? cents}
+                        onChange={(e) => setCentsDrafts(drafts => ({ ...drafts, [key]: e.target.value }))}
+                        onBlur={(e) => handleCustomCentsChange(key, e.target.value)}
+                        aria-label={`Cents above C for ${key}`}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+          
           {/* Number of Strings */}
           <div className="space-y-2">
             <Label>Number of Strings</Label>
@@ -149,9 +347,22 @@ export function SettingsPanel({ settings, onSettingsChange }: SettingsPanelProps
           <div className="space-y-3">
             <Label className="text-base font-semibold">String Tuning</Label>
             <p className="text-sm text-muted-foreground">Top string (1) is lowest pitch</p>
+            <TuningDetector settings={settings} onSettingsChange={onSettingsChange} onDetectingChange={onDetectingTuningChange} />
+            
+            <Select value={activePreset?.id ?? 'custom'} onValueChange={handlePresetChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TUNING_PRESETS.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                ))}
+                <SelectItem value="custom" disabled>Custom</SelectItem>
+              </SelectContent>
+            </Select>
             
             {settings.strings.slice(0, settings.stringCount).map((string, index) => (
-              <div key={index} className="flex items-center gap-3">
+              <div key={index} className="flex flex-wrap items-center gap-3">
                 <span className="text-sm w-16 text-muted-foreground">String {index + 1}</span>
                 
                 <Select 
@@ -171,17 +382,39 @@ export function SettingsPanel({ settings, onSettingsChange }: SettingsPanelProps
                 </Select>
                 
                 <Select 
-                  value={string.courseCount.toString()} 
-                  onValueChange={(v) => handleCourseCountChange(index, v)}
+                  value={getCourseType(string)} 
+                  onValueChange={(v: CourseType) => handleCourseTypeChange(index, v)}
                 >
-                  <SelectTrigger className="w-20">
+                  <SelectTrigger className="w-24">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="1">Single</SelectItem>
-                    <SelectItem value="2">Double</SelectItem>
+                    <SelectItem value="single">Single</SelectItem>
+                    <SelectItem value="double">Double</SelectItem>
+                    <SelectItem value="octave">Octave pair</SelectItem>
                   </SelectContent>
                 </Select>
+                
+                {string.octaveNote && (
+                  <div className="flex items-center gap-2 pl-[4.75rem]">
+                    <span className="text-xs text-muted-foreground">2nd string</span>
+                    <Select 
+                      value={noteToString(string.octaveNote)} 
+                      onValueChange={(v) => handleOctaveNoteChange(index, v)}
+                    >
+                      <SelectTrigger className="w-24">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {allNotes.map(n => (
+                          <SelectItem key={n.display} value={n.display}>
+                            {formatNote(n.note, settings.notationSystem)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -233,6 +466,61 @@ export function SettingsPanel({ settings, onSettingsChange }: SettingsPanelProps
           
           <Separator />
           
+          {/* Clef */}
+          <div className="space-y-2">
+            <Label>Clef</Label>
+            <Select
+              value={settings.clefId}
+              onValueChange={(v: ClefId) => onSettingsChange({ ...settings, clefId: v })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CLEFS.map(c => (
+                  <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-3">
+              <span className="text-sm w-24 text-muted-foreground">Written</span>
+              <Select
+                value={String(settings.transposition)}
+                onValueChange={(v) => onSettingsChange({ ...settings, transposition: parseInt(v) })}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="-1">An octave below sounding</SelectItem>
+                  <SelectItem value="0">At sounding pitch</SelectItem>
+                  <SelectItem value="1">An octave above sounding</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          
+          {/* Key Signature */}
+          <div className="space-y-2">
+            <Label>Key / Maqam Signature</Label>
+            <p className="text-xs text-muted-foreground">Notes are drawn from and spelled in this key</p>
+            <Select
+              value={settings.keySignatureId}
+              onValueChange={(v: KeySignatureId) => onSettingsChange({ ...settings, keySignatureId: v })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {KEY_SIGNATURES.map(k => (
+                  <SelectItem key={k.id} value={k.id}>
+                    {k.group === 'maqam' ? `Maqam ${k.name}` : k.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          
           {/* Notes per Line */}
           <div className="space-y-2">
             <Label>Notes per Line</Label>
@@ -261,6 +549,19 @@ export function SettingsPanel({ settings, onSettingsChange }: SettingsPanelProps
             />
           </div>
           
+          {/* Include Quarter Tones */}
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="quarter-tones-switch">Include Quarter Tones</Label>
+              <p className="text-sm text-muted-foreground">Add half-flat and half-sharp maqam notes</p>
+            </div>
+            <Switch
+              id="quarter-tones-switch"
+              checked={settings.includeQuarterTones}
+              onCheckedChange={(checked) => onSettingsChange({ ...settings, includeQuarterTones: checked })}
+            />
+          </div>
+          
           {/* Avoid Repetition */}
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
@@ -274,6 +575,252 @@ export function SettingsPanel({ settings, onSettingsChange }: SettingsPanelProps
             />
           </div>
           
+          {/* Ear Training */}
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="ear-reference-switch">Ear Training Reference Tone</Label>
+              <p className="text-sm text-muted-foreground">Play the lowest note of the range before each hidden note</p>
+            </div>
+            <Switch
+              id="ear-reference-switch"
+              checked={settings.earReferenceTone || settings.earIntervalAnswers}
+              disabled={settings.earIntervalAnswers}
+              onCheckedChange={(checked) => onSettingsChange({ ...settings, earReferenceTone: checked })}
+            />
+          </div>
+          
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="ear-intervals-switch">Answer with Intervals</Label>
+              <p className="text-sm text-muted-foreground">Name the interval above the reference instead of the note</p>
+            </div>
+            <Switch
+              id="ear-intervals-switch"
+              checked={settings.earIntervalAnswers}
+              onCheckedChange={(checked) => onSettingsChange({ ...settings, earIntervalAnswers: checked })}
+            />
+          </div>
+          
+          {/* Name the Note */}
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="flashcard-octave-switch">Name Notes with Octave</Label>
+              <p className="text-sm text-muted-foreground">Name-the-note answers must include the octave</p>
+            </div>
+            <Switch
+              id="flashcard-octave-switch"
+              checked={settings.flashcardOctave}
+              onCheckedChange={(checked) => onSettingsChange({ ...settings, flashcardOctave: checked })}
+            />
+          </div>
+          
+          <Separator />
+          
+          {/* Tempo & Meter, shared by rhythm reading and the metronome */}
+          <div className="space-y-3">
+            <Label className="text-base font-semibold">Tempo & Meter</Label>
+            <div className="flex items-center gap-3">
+              <span className="text-sm w-24 text-muted-foreground">Time</span>
+              <Select
+                value={settings.timeSignatureId}
+                onValueChange={(v: TimeSignatureId) => onSettingsChange({ ...settings, timeSignatureId: v })}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIME_SIGNATURES.map(t => (
+                    <SelectItem key={t.id} value={t.id}>{t.id}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            
+            <div className="flex items-center gap-3">
+              <span className="text-sm w-24 text-muted-foreground">Tempo</span>
+              <Select
+                value={settings.tempoBpm.toString()}
+                onValueChange={(v) => onSettingsChange({ ...settings, tempoBpm: parseInt(v) })}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[40, 50, 60, 72, 80, 92, 100, 120, 144].map(n => (
+                    <SelectItem key={n} value={n.toString()}>{n} BPM</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          
+          {/* Rhythm */}
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="rhythm-switch">Rhythm Reading</Label>
+              <p className="text-sm text-muted-foreground">Add note values and judge timing against a tempo</p>
+            </div>
+            <Switch
+              id="rhythm-switch"
+              checked={settings.rhythmEnabled}
+              onCheckedChange={(checked) => onSettingsChange({ ...settings, rhythmEnabled: checked })}
+            />
+          </div>
+          
+          {settings.rhythmEnabled && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-3">
+                <span className="text-sm w-24 text-muted-foreground">Tolerance</span>
+                <Select
+                  value={settings.timingToleranceMs.toString()}
+                  onValueChange={(v) => onSettingsChange({ ...settings, timingToleranceMs: parseInt(v) })}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[60, 90, 120, 180, 250].map(n => (
+                      <SelectItem key={n} value={n.toString()}>±{n} ms</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              <div className="space-y-2">
+                <span className="text-sm text-muted-foreground">Note values</span>
+                <div className="flex flex-wrap gap-2">
+                  {NOTE_VALUES.map(v => (
+                    <Button
+                      key={v}
+                      variant={settings.noteValues.includes(v) ? 'default' : 'outline'}
+                      size="sm"
+                      className="capitalize"
+                      onClick={() => handleNoteValueToggle(v)}
+                    >
+                      {v}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              
+              <div className="flex items-center justify-between">
+                <Label htmlFor="dotted-switch">Dotted Notes</Label>
+                <Switch
+                  id="dotted-switch"
+                  checked={settings.includeDotted}
+                  onCheckedChange={(checked) => onSettingsChange({ ...settings, includeDotted: checked })}
+                />
+              </div>
+              
+              <div className="flex items-center justify-between">
+                <Label htmlFor="rests-switch">Rests</Label>
+                <Switch
+                  id="rests-switch"
+                  checked={settings.includeRests}
+                  onCheckedChange={(checked) => onSettingsChange({ ...settings, includeRests: checked })}
+                />
+              </div>
+            </div>
+          )}
+          
+          <Separator />
+          
+          {/* Metronome */}
+          <div className="space-y-3">
+            <Label className="text-base font-semibold">Metronome</Label>
+            <div className="flex items-center gap-3">
+              <span className="text-sm w-24 text-muted-foreground">Subdivide</span>
+              <Select
+                value={settings.metronomeSubdivision.toString()}
+                onValueChange={(v) => onSettingsChange({ ...settings, metronomeSubdivision: parseInt(v) })}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">Beats only</SelectItem>
+                  <SelectItem value="2">2 per beat</SelectItem>
+                  <SelectItem value="3">3 per beat</SelectItem>
+                  <SelectItem value="4">4 per beat</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            
+            <div className="flex items-center gap-3">
+              <span className="text-sm w-24 text-muted-foreground">Count-in</span>
+              <Select
+                value={settings.countInBars.toString()}
+                onValueChange={(v) => onSettingsChange({ ...settings, countInBars: parseInt(v) })}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="0">None</SelectItem>
+                  <SelectItem value="1">1 bar</SelectItem>
+                  <SelectItem value="2">2 bars</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Accents (tap to change)</span>
+                {settings.metronomeAccents && (
+                  <Button variant="ghost" size="sm" onClick={() => onSettingsChange({ ...settings, metronomeAccents: null })}>
+                    Default
+                  </Button>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {metronomeAccents.map((accent, i) => (
+                  <Button
+                    key={i}
+                    variant={accent === 'strong' ? 'default' : accent === 'mute' ? 'ghost' : 'outline'}
+                    size="sm"
+                    className={cn('w-10', accent === 'weak' && 'text-muted-foreground')}
+                    onClick={() => handleAccentToggle(i)}
+                    title={accent}
+                  >
+                    {accent === 'mute' ? '·' : i + 1}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+          
+          <Separator />
+          
+          {/* Iqa' */}
+          <div className="space-y-3">
+            <Label className="text-base font-semibold">Rhythm Cycle (Iqa')</Label>
+            <Select value={settings.iqaId} onValueChange={(v: IqaId) => onSettingsChange({ ...settings, iqaId: v })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {IQAAT.map(iqa => (
+                  <SelectItem key={iqa.id} value={iqa.id}>
+                    {iqa.name} ({iqa.beats}/{iqa.beatValue})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="iqa-fills-switch">Ka Fills</Label>
+                <p className="text-sm text-muted-foreground">Ornament the silent steps with light strokes</p>
+              </div>
+              <Switch
+                id="iqa-fills-switch"
+                checked={settings.iqaFills}
+                onCheckedChange={(checked) => onSettingsChange({ ...settings, iqaFills: checked })}
+              />
+            </div>
+          </div>
+          
+          <Separator />
+          
           {/* Mic Debounce */}
           <div className="space-y-2">
             <Label>Mic Debounce (ms)</Label>
@@ -289,22 +836,101 @@ export function SettingsPanel({ settings, onSettingsChange }: SettingsPanelProps
             </Select>
           </div>
           
-          {/* Repeat Note Buffer */}
+          {/* Wrong Notes from the Mic */}
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="mic-wrong-notes">Score Wrong Mic Notes</Label>
+              <p className="text-xs text-muted-foreground">Count sustained wrong notes as mistakes</p>
+            </div>
+            <Switch
+              id="mic-wrong-notes"
+              checked={settings.micScoreWrongNotes}
+              onCheckedChange={(checked) => onSettingsChange({ ...settings, micScoreWrongNotes: checked })}
+            />
+          </div>
+          
+          {settings.micScoreWrongNotes && (
+            <>
+              <div className="space-y-2">
+                <Label>Grace Window (ms)</Label>
+                <p className="text-xs text-muted-foreground">Ignore other notes this soon after a new target</p>
+                <Select value={settings.micGraceMs.toString()} onValueChange={(v) => onSettingsChange({ ...settings, micGraceMs: parseInt(v) })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[0, 150, 300, 500, 800, 1200].map(n => (
+                      <SelectItem key={n} value={n.toString()}>{n} ms</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="mic-open-strings">Ignore Open Strings</Label>
+                  <p className="text-xs text-muted-foreground">Don't count ringing open courses as wrong</p>
+                </div>
+                <Switch
+                  id="mic-open-strings"
+                  checked={settings.micIgnoreOpenStrings}
+                  onCheckedChange={(checked) => onSettingsChange({ ...settings, micIgnoreOpenStrings: checked })}
+                />
+              </div>
+            </>
+          )}
+          
+          {/* Intonation Tolerance */}
           <div className="space-y-2">
-            <Label>Repeat Note Buffer (ms)</Label>
-            <p className="text-xs text-muted-foreground">Wait time before same note counts again</p>
-            <Select value={settings.repeatNoteBufferMs.toString()} onValueChange={(v) => onSettingsChange({ ...settings, repeatNoteBufferMs: parseInt(v) })}>
+            <Label>Intonation Tolerance</Label>
+            <p className="text-xs text-muted-foreground">How far from the target a mic note may be and still count as in tune</p>
+            <Select value={settings.intonationToleranceCents.toString()} onValueChange={(v) => onSettingsChange({ ...settings, intonationToleranceCents: parseInt(v) })}>
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {[200, 300, 400, 500, 750, 1000, 1250, 1500].map(n => (
-                  <SelectItem key={n} value={n.toString()}>{n} ms</SelectItem>
+                {[5, 10, 15, 20, 25, 30].map(n => (
+                  <SelectItem key={n} value={n.toString()}>±{n} cents</SelectItem>
                 ))}
               </SelectContent>
             </Select>
           </div>
           
+          {/* Pitch Detection Algorithm */}
+          <div className="space-y-2">
+            <Label>Pitch Detection</Label>
+            <p className="text-xs text-muted-foreground">YIN and McLeod avoid octave errors on the low courses</p>
+            <Select value={settings.pitchAlgorithm} onValueChange={(v: PitchAlgorithm) => onSettingsChange({ ...settings, pitchAlgorithm: v })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="yin">YIN</SelectItem>
+                <SelectItem value="mpm">McLeod (MPM)</SelectItem>
+                <SelectItem value="autocorrelation">Autocorrelation (legacy)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          
+          {/* Mic Pitch Grid */}
+          <div className="space-y-2">
+            <Label>Mic Pitch Grid</Label>
+            <p className="text-xs text-muted-foreground">Steps the detected pitch snaps to</p>
+            {settings.includeQuarterTones && settings.pitchGrid === '12-tet' && (
+              <p className="text-xs text-accent">Quarter tones are on, so the mic listens in quarter tones</p>
+            )}
+            <Select value={settings.pitchGrid} onValueChange={(v: PitchGrid) => onSettingsChange({ ...settings, pitchGrid: v })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="12-tet">Semitones (12-TET)</SelectItem>
+                <SelectItem value="24-tet">Quarter tones (24-TET)</SelectItem>
+                <SelectItem value="53-comma">Commas (53 per octave)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          
           <Separator />
           
           {/* Reset Button */}
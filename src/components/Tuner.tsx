@@ -0,0 +1,311 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Check, Mic } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Settings } from '@/lib/settings';
+import { formatNote, frequencyToMidi, midiToNote, notesEqual } from '@/lib/noteUtils';
+import { pitchDetector } from '@/lib/micPitchDetector';
+import {
+  IN_TUNE_CENTS,
+  ReadingWindow,
+  Stability,
+  TuningTarget,
+  centsFromTarget,
+  getTuningTargets,
+  nearestTarget,
+} from '@/lib/tuner';
+import { cn } from '@/lib/utils';
+
+interface TunerProps {
+  settings: Settings;
+  isListening: boolean;
+  onStartListening: () => void;
+  compact?: boolean;
+  className?: string;
+}
+
+interface TunerDisplay {
+  frequency: number;
+  cents: number;
+  target: TuningTarget;
+  stability: Stability;
+}
+
+// The needle sweeps ±50 cents over ±60 degrees
+const NEEDLE_RANGE_CENTS = 50;
+const NEEDLE_RANGE_DEG = 60;
+// The display rests after this long without a pitched frame
+const SILENCE_MS = 400;
+// A string counts as tuned after holding steady and in tune this long
+const HOLD_MS = 500;
+
+const STABILITY_LABELS: Record<Stability, string> = {
+  steady: 'Steady',
+  settling: 'Settling',
+  unstable: 'Unstable',
+};
+
+const targetKey = (target: TuningTarget) => `${target.course}-${target.string}`;
+
+export function Tuner({ settings, isListening, onStartListening, compact, className }: TunerProps) {
+  const strings = useMemo(() => settings.strings.slice(0, settings.stringCount), [settings.strings, settings.stringCount]);
+  const targets = useMemo(() => getTuningTargets(strings), [strings]);
+  const [autoTarget, setAutoTarget] = useState(true);
+  const [selected, setSelected] = useState<TuningTarget>(targets[0]);
+  const [display, setDisplay] = useState<TunerDisplay | null>(null);
+  const [tuned, setTuned] = useState<Set<string>>(new Set());
+  const windowRef = useRef(new ReadingWindow());
+  const lastReadingAtRef = useRef(0);
+  const inTuneSinceRef = useRef<number | null>(null);
+  const strobeRef = useRef<HTMLDivElement>(null);
+  const selectedRef = useRef(selected);
+  const autoTargetRef = useRef(autoTarget);
+  selectedRef.current = selected;
+  autoTargetRef.current = autoTarget;
+
+  // Retuned strings start over; keep the selection when its course still exists
+  useEffect(() => {
+    setTuned(new Set());
+    setSelected(prev => targets.find(t => targetKey(t) === targetKey(prev)) ?? targets[0]);
+  }, [targets]);
+
+  useEffect(() => {
+    if (!isListening) {
+      setDisplay(null);
+      return;
+    }
+    const readings = windowRef.current;
+    readings.clear();
+    return pitchDetector.on('pitch', reading => {
+      readings.push(reading);
+      lastReadingAtRef.current = performance.now();
+    });
+  }, [isListening]);
+
+  // One animation loop drives the needle, the strobe drift and the tuned check marks
+  useEffect(() => {
+    if (!isListening) return;
+    let rafId: number;
+    let strobeOffset = 0;
+    let lastFrame = performance.now();
+
+    const frame = (now: number) => {
+      const dt = (now - lastFrame) / 1000;
+      lastFrame = now;
+      const readings = windowRef.current;
+      const frequency = now - lastReadingAtRef.current < SILENCE_MS ? readings.frequency() : null;
+
+      if (frequency === null) {
+        inTuneSinceRef.current = null;
+        setDisplay(prev => (prev === null ? prev : null));
+      } else {
+        let target = selectedRef.current;
+        if (autoTargetRef.current) {
+          // Follow the nearest course but keep the chosen string within a unison pair
+          const nearest = nearestTarget(frequency, targets);
+          if (nearest && !(nearest.course === target.course && notesEqual(nearest.note, target.note))) {
+            const current = target;
+            target = targets.find(t =>
+              t.course === nearest.course && t.string === current.string && notesEqual(t.note, nearest.note)
+            ) ?? nearest;
+            setSelected(target);
+          }
+        }
+        const cents = centsFromTarget(frequency, target.note);
+        const stability = readings.stability();
+        setDisplay({ frequency, cents, target, stability });
+
+        if (Math.abs(cents) <= IN_TUNE_CENTS && stability === 'steady') {
+          inTuneSinceRef.current ??= now;
+          if (now - inTuneSinceRef.current >= HOLD_MS) {
+            const key = targetKey(target);
+            setTuned(prev => (prev.has(key) ? prev : new Set(prev).add(key)));
+          }
+        } else {
+          inTuneSinceRef.current = null;
+        }
+
+        // Stripes drift right when sharp, left when flat, and stand still in tune
+        strobeOffset += Math.max(-NEEDLE_RANGE_CENTS, Math.min(NEEDLE_RANGE_CENTS, cents)) * dt * 4;
+      }
+      if (strobeRef.current) strobeRef.current.style.backgroundPositionX = `${strobeOffset}px`;
+      rafId = requestAnimationFrame(frame);
+    };
+    rafId = requestAnimationFrame(frame);
+    return () => cancelAnimationFrame(rafId);
+  }, [isListening, targets]);
+
+  const selectTarget = (target: TuningTarget) => {
+    setSelected(target);
+    setAutoTarget(false);
+    inTuneSinceRef.current = null;
+  };
+
+  const cents = display?.cents ?? 0;
+  const clampedCents = Math.max(-NEEDLE_RANGE_CENTS, Math.min(NEEDLE_RANGE_CENTS, cents));
+  const needleAngle = (clampedCents / NEEDLE_RANGE_CENTS) * NEEDLE_RANGE_DEG;
+  const inTune = !!display && Math.abs(cents) <= IN_TUNE_CENTS;
+  const target = display?.target ?? selected;
+  const targetNote = target ? formatNote(target.note, settings.notationSystem) : '';
+  const course = target ? strings[target.course] : undefined;
+  const isDoubleCourse = !!course && course.courseCount > 1;
+  // Off by more than the needle shows: name what is actually sounding
+  const heardNote = display && Math.abs(cents) > NEEDLE_RANGE_CENTS
+    ? formatNote(midiToNote(Math.round(frequencyToMidi(display.frequency))), settings.notationSystem)
+    : null;
+
+  if (!isListening) {
+    return (
+      <div className={cn('flex flex-col items-center justify-center gap-3 py-10 text-center', className)}>
+        <p className="text-sm text-muted-foreground">The tuner listens through the microphone.</p>
+        <Button onClick={onStartListening} className="gap-2">
+          <Mic className="w-4 h-4" />
+          Start Mic
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('flex flex-col items-center gap-4', compact && 'gap-2', className)}>
+      {/* Cents needle */}
+      <svg viewBox="0 0 240 140" className={cn('w-full', compact ? 'max-w-[220px]' : 'max-w-sm')}>
+        {Array.from({ length: 11 }, (_, i) => {
+          const tickCents = -NEEDLE_RANGE_CENTS + i * 10;
+          const angle = ((tickCents / NEEDLE_RANGE_CENTS) * NEEDLE_RANGE_DEG * Math.PI) / 180;
+          const long = tickCents % 50 === 0 || tickCents === 0;
+          const inner = long ? 92 : 100;
+          return (
+            <line
+              key={i}
+              x1={120 + Math.sin(angle) * inner}
+              y1={130 - Math.cos(angle) * inner}
+              x2={120 + Math.sin(angle) * 110}
+              y2={130 - Math.cos(angle) * 110}
+              className={tickCents === 0 ? 'stroke-success' : 'stroke-muted-foreground'}
+              strokeWidth={tickCents === 0 ? 3 : 1.5}
+            />
+          );
+        })}
+        {/* In-tune zone */}
+        <path
+          d={(() => {
+            const a = ((IN_TUNE_CENTS / NEEDLE_RANGE_CENTS) * NEEDLE_RANGE_DEG * Math.PI) / 180;
+            return `M ${120 - Math.sin(a) * 110} ${130 - Math.cos(a) * 110} A 110 110 0 0 1 ${120 + Math.sin(a) * 110} ${130 - Math.cos(a) * 110}`;
+          })()}
+          className="stroke-success"
+          strokeWidth={6}
+          fill="none"
+        />
+        <text x={18} y={128} className="fill-muted-foreground text-[10px]">♭</text>
+        <text x={214} y={128} className="fill-muted-foreground text-[10px]">♯</text>
+        <line
+          x1={120}
+          y1={130}
+          x2={120}
+          y2={28}
+          className={cn(display ? (inTune ? 'stroke-success' : 'stroke-destructive') : 'stroke-muted')}
+          strokeWidth={3}
+          strokeLinecap="round"
+          style={{ transform: `rotate(${needleAngle}deg)`, transformOrigin: '120px 130px', transition: 'transform 80ms linear' }}
+        />
+        <circle cx={120} cy={130} r={5} className="fill-foreground" />
+      </svg>
+
+      {/* Readout */}
+      <div className="text-center">
+        <div className={cn('font-serif font-bold', compact ? 'text-2xl' : 'text-4xl', inTune ? 'text-success' : 'text-foreground')}>
+          {targetNote}
+        </div>
+        <div className="text-sm text-muted-foreground tabular-nums">
+          {display
+            ? `${cents > 0 ? '+' : ''}${Math.round(cents)} cents · ${display.frequency.toFixed(1)} Hz`
+            : 'Pluck a string'}
+        </div>
+        {heardNote && (
+          <div className="text-xs text-destructive">
+            Hearing {heardNote}: tune {cents < 0 ? 'up' : 'down'} towards {targetNote}
+          </div>
+        )}
+      </div>
+
+      {/* Strobe */}
+      <div
+        ref={strobeRef}
+        className={cn(
+          'w-full max-w-sm h-6 rounded border border-border transition-opacity',
+          !display && 'opacity-30'
+        )}
+        style={{
+          backgroundImage: `repeating-linear-gradient(90deg, hsl(var(--${inTune ? 'success' : 'primary'})) 0 12px, transparent 12px 24px)`,
+        }}
+        title="Stripes drift right when sharp and left when flat"
+      />
+
+      {/* Stability */}
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span>Stability</span>
+        <div className="flex gap-0.5">
+          {(['unstable', 'settling', 'steady'] as Stability[]).map((level, i) => {
+            const reached = !!display && i <= ['unstable', 'settling', 'steady'].indexOf(display.stability);
+            return (
+              <div
+                key={level}
+                className={cn(
+                  'w-4 h-2 rounded-sm',
+                  !reached && 'bg-muted',
+                  reached && (display?.stability === 'steady' ? 'bg-success' : display?.stability === 'settling' ? 'bg-accent' : 'bg-destructive')
+                )}
+              />
+            );
+          })}
+        </div>
+        <span className="w-14">{display ? STABILITY_LABELS[display.stability] : '—'}</span>
+      </div>
+
+      {/* Per-string targets */}
+      <div className="w-full max-w-md space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">Strings</span>
+          <div className="flex items-center gap-2">
+            <Switch id="tuner-auto" checked={autoTarget} onCheckedChange={setAutoTarget} />
+            <Label htmlFor="tuner-auto" className="text-xs">Auto-select course</Label>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          {strings.map((config, courseIndex) => (
+            <div key={courseIndex} className="flex items-center gap-0.5 rounded-md border border-border p-0.5">
+              {targets.filter(t => t.course === courseIndex).map(t => {
+                const key = targetKey(t);
+                const isSelected = !!target && targetKey(target) === key;
+                return (
+                  <Button
+                    key={key}
+                    variant={isSelected ? 'default' : 'ghost'}
+                    size="sm"
+                    onClick={() => selectTarget(t)}
+                    className="h-7 px-2 text-xs gap-1"
+                    title={`Course ${courseIndex + 1}${config.courseCount > 1 ? `, string ${t.string + 1}` : ''}`}
+                  >
+                    {formatNote(t.note, settings.notationSystem)}
+                    {tuned.has(key) && <Check className="w-3 h-3 text-success" />}
+                  </Button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+        {isDoubleCourse && target && (
+          <p className="text-xs text-muted-foreground">
+            {target.string === 0
+              ? `Course ${target.course + 1} is a pair: rest a finger lightly on the second string and tune the first on its own.`
+              : course?.octaveNote
+                ? `Now damp the first string and tune the second to ${targetNote}, an octave above it.`
+                : `Now damp the first string and tune the second to the same ${targetNote}. Played together, a slow wobble means the pair is still apart.`}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
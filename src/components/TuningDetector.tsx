@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { WandSparkles } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Settings } from '@/lib/settings';
+import { formatNote, frequencyToMidi, midiToNote } from '@/lib/noteUtils';
+import { pitchDetector } from '@/lib/micPitchDetector';
+import { ReadingWindow } from '@/lib/tuner';
+import { TuningMatch, matchTuning } from '@/lib/tuningPresets';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+interface TuningDetectorProps {
+  settings: Settings;
+  onSettingsChange: (settings: Settings) => void;
+  onDetectingChange?: (detecting: boolean) => void; // While open, plucks are for detection, not the staff
+}
+
+type Step = 'intro' | 'listening' | 'review';
+
+// A course is captured once its pitch has held steady this long
+const CAPTURE_MS = 400;
+// Name this dialog holds the mic under
+const MIC_HOLDER = 'tuning-detector';
+
+export function TuningDetector({ settings, onSettingsChange, onDetectingChange }: TuningDetectorProps) {
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>('intro');
+  const [courseCount, setCourseCount] = useState(settings.stringCount);
+  const [captured, setCaptured] = useState<number[]>([]);
+  const [heard, setHeard] = useState<number | null>(null);
+  const [match, setMatch] = useState<TuningMatch | null>(null);
+
+  const reset = () => {
+    setStep('intro');
+    setCaptured([]);
+    setHeard(null);
+    setMatch(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setCourseCount(settings.stringCount);
+      reset();
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    onDetectingChange?.(true);
+    return () => onDetectingChange?.(false);
+  }, [open, onDetectingChange]);
+  
+  // Hold the shared detector's mic while listening, sharing it if practice already has it on
+  useEffect(() => {
+    if (!open || step !== 'listening') return;
+    let cancelled = false;
+    const readings = new ReadingWindow();
+    let steadySince: number | null = null;
+    // The previous course keeps ringing, so each course waits for a fresh pluck
+    let awaitingPluck = true;
+
+    const unsubscribeOnset = pitchDetector.on('onset', () => {
+      readings.clear();
+      steadySince = null;
+      awaitingPluck = false;
+    });
+    const unsubscribePitch = pitchDetector.on('pitch', reading => {
+      if (awaitingPluck) return;
+      readings.push(reading);
+      const frequency = readings.frequency();
+      setHeard(frequency);
+      if (frequency === null || readings.stability() !== 'steady') {
+        steadySince = null;
+        return;
+      }
+      steadySince ??= reading.time;
+      if (reading.time - steadySince >= CAPTURE_MS) {
+        awaitingPluck = true;
+        setHeard(null);
+        setCaptured(prev => [...prev, frequency]);
+      }
+    });
+
+    pitchDetector
+      .acquire(MIC_HOLDER, { grid: settings.pitchGrid, algorithm: settings.pitchAlgorithm })
+      .catch(() => {
+        if (cancelled) return;
+        toast.error('Microphone access denied');
+        setStep('intro');
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribeOnset();
+      unsubscribePitch();
+      pitchDetector.release(MIC_HOLDER);
+    };
+  }, [open, step, settings.pitchGrid, settings.pitchAlgorithm]);
+
+  // Every course heard: compare against the presets
+  useEffect(() => {
+    if (step !== 'listening' || captured.length < courseCount) return;
+    const currentCounts = settings.strings.map(s => s.courseCount);
+    setMatch(matchTuning(captured, currentCounts));
+    setStep('review');
+  }, [captured, courseCount, step, settings.strings]);
+
+  const applyMatch = () => {
+    if (!match) return;
+    onSettingsChange({ ...settings, strings: match.strings, stringCount: match.strings.length });
+    toast.success(match.preset ? `Tuning set to ${match.preset.name}` : 'Custom tuning saved');
+    setOpen(false);
+  };
+
+  const noteName = (frequency: number) =>
+    formatNote(midiToNote(Math.round(frequencyToMidi(frequency))), settings.notationSystem);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full gap-2">
+          <WandSparkles className="w-4 h-4" />
+          Detect My Tuning
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Detect My Tuning</DialogTitle>
+          <DialogDescription>
+            Pluck each open course in turn, from the top (lowest) course down.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'intro' && (
+          <div className="space-y-2">
+            <Label>Courses on your oud</Label>
+            <Select value={courseCount.toString()} onValueChange={(v) => setCourseCount(parseInt(v))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[4, 5, 6, 7, 8].map(count => (
+                  <SelectItem key={count} value={count.toString()}>{count} courses</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {step === 'listening' && (
+          <div className="space-y-3">
+            <div className="text-center">
+              <div className="text-sm text-muted-foreground">Pluck course {captured.length + 1} of {courseCount}, open</div>
+              <div className="text-3xl font-serif font-bold h-10">
+                {heard !== null ? noteName(heard) : ''}
+              </div>
+            </div>
+            <div className="flex flex-wrap justify-center gap-1.5">
+              {Array.from({ length: courseCount }, (_, i) => (
+                <div
+                  key={i}
+                  className={cn(
+                    'min-w-10 px-2 py-1 rounded border text-center text-sm',
+                    i < captured.length && 'border-success text-success',
+                    i === captured.length && 'border-primary animate-pulse',
+                    i > captured.length && 'border-border text-muted-foreground'
+                  )}
+                >
+                  {i < captured.length ? noteName(captured[i]) : i + 1}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {step === 'review' && match && (
+          <div className="space-y-3">
+            <p className="text-sm">
+              {match.preset
+                ? <>This looks like <span className="font-semibold">{match.preset.name}</span>.</>
+                : "This doesn't match a known preset, so it will be saved as a custom tuning."}
+            </p>
+            <div className="space-y-1">
+              {match.strings.map((string, i) => (
+                <div key={i} className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Course {i + 1}</span>
+                  <span className="font-medium">{formatNote(string.openNote, settings.notationSystem)}</span>
+                  <span className={cn('w-24 text-right tabular-nums', Math.abs(match.centsOff[i]) > 10 ? 'text-destructive' : 'text-success')}>
+                    {match.centsOff[i] > 0 ? '+' : ''}{Math.round(match.centsOff[i])} cents
+                  </span>
+                </div>
+              ))}
+            </div>
+            {match.centsOff.some(c => Math.abs(c) > 10) && (
+              <p className="text-xs text-muted-foreground">Courses in red are out of tune; the tuner can bring them in.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === 'intro' && (
+            <Button onClick={() => setStep('listening')}>Start Listening</Button>
+          )}
+          {step === 'listening' && (
+            <Button variant="outline" onClick={() => setCaptured(prev => prev.slice(0, -1))} disabled={captured.length === 0}>
+              Redo Last
+            </Button>
+          )}
+          {step === 'review' && (
+            <>
+              <Button variant="outline" onClick={reset}>Start Over</Button>
+              <Button onClick={applyMatch}>Apply</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { getAccidentalGlyph, getStaffAccidentalGlyph, turkishGlyphForCommas } from './accidentals';
+import { getKeySignature } from './keySignatures';
+import { Note, setTuning } from './noteUtils';
+import { BUILT_IN_TUNINGS } from './tuning';
+
+const n = (letter: Note['letter'], octave: number, accidental: Note['accidental'] = ''): Note => ({ letter, accidental, octave });
+
+afterEach(() => setTuning(null));
+
+describe('turkishGlyphForCommas', () => {
+  it('picks the AEU sign by the size of the alteration', () => {
+    expect(turkishGlyphForCommas(0)).toBeNull();
+    expect(turkishGlyphForCommas(-1)).toBe('koma-flat');
+    expect(turkishGlyphForCommas(-4)).toBe('bakiye-flat');
+    expect(turkishGlyphForCommas(-5)).toBe('kucuk-mucenneb-flat');
+    expect(turkishGlyphForCommas(-8)).toBe('buyuk-mucenneb-flat');
+    expect(turkishGlyphForCommas(1)).toBe('koma-sharp');
+    expect(turkishGlyphForCommas(4)).toBe('bakiye-sharp');
+  });
+});
+
+describe('getAccidentalGlyph', () => {
+  it('draws Arabic accidentals by their spelling', () => {
+    expect(getAccidentalGlyph(n('E', 4, 'hb'), 'arabic')).toBe('half-flat');
+    expect(getAccidentalGlyph(n('B', 4, 'b'), 'arabic')).toBe('flat');
+    expect(getAccidentalGlyph(n('B', 4), 'arabic')).toBeNull();
+  });
+
+  it('reads an equal-tempered B♭ as a bakiye flat, not a half-flat sign', () => {
+    const flat = getAccidentalGlyph(n('B', 4, 'b'), 'turkish');
+    const halfFlat = getAccidentalGlyph(n('E', 4, 'hb'), 'turkish');
+    expect(flat).toBe('bakiye-flat');
+    expect(halfFlat).toBe('koma-flat');
+    expect(flat).not.toBe(halfFlat);
+  });
+
+  it('sizes Turkish signs in the active tuning table', () => {
+    setTuning(BUILT_IN_TUNINGS['arabic-53']);
+    expect(getAccidentalGlyph(n('E', 4, 'hb'), 'turkish')).toBe('koma-flat');
+    // Five-comma chromatic steps, as the AEU system writes F♯ and B♭
+    expect(getAccidentalGlyph(n('F', 4, '#'), 'turkish')).toBe('kucuk-mucenneb-sharp');
+    expect(getAccidentalGlyph(n('B', 4, 'b'), 'turkish')).toBe('kucuk-mucenneb-flat');
+  });
+});
+
+describe('getStaffAccidentalGlyph', () => {
+  it('leaves out accidentals the key signature implies and cancels the rest', () => {
+    const rast = getKeySignature('rast');
+    expect(getStaffAccidentalGlyph(n('E', 4, 'hb'), 'arabic', rast)).toBeNull();
+    expect(getStaffAccidentalGlyph(n('E', 4), 'arabic', rast)).toBe('natural');
+    expect(getStaffAccidentalGlyph(n('A', 4, 'hb'), 'arabic', rast)).toBe('half-flat');
+  });
+});
@@ -0,0 +1,91 @@
+// Accidental glyph selection for Arabic and Turkish (AEU) staff notation
+
+import { Accidental, Note, getTunedCents } from './noteUtils';
+import { KeySignature, getAccidentalToPrint } from './keySignatures';
+
+// Arabic notation uses the Western sharp/flat plus slashed quarter-tone signs.
+// Turkish notation (Arel-Ezgi-Uzdilek) uses comma-based signs on a 53-comma octave:
+// koma ♭ is a reversed flat, bakiye ♭ the plain flat, küçük mücenneb ♭ a flat with one
+// slash high on the stem, büyük mücenneb ♭ a flat with two; bakiye ♯ is the plain sharp,
+// koma ♯ a slashed single-stem sharp, küçük mücenneb ♯ a slashed sharp and büyük
+// mücenneb ♯ has three stems. A Turkish B♭ prints as a flat, and no comma sign is drawn
+// like an Arabic quarter-tone sign.
+export type AccidentalStyle = 'arabic' | 'turkish';
+
+export type AccidentalGlyphName =
+  | 'natural'
+  | 'sharp'
+  | 'flat'
+  | 'half-sharp'
+  | 'half-flat'
+  | 'koma-sharp'
+  | 'bakiye-sharp'
+  | 'kucuk-mucenneb-sharp'
+  | 'buyuk-mucenneb-sharp'
+  | 'koma-flat'
+  | 'bakiye-flat'
+  | 'kucuk-mucenneb-flat'
+  | 'buyuk-mucenneb-flat';
+
+// One Holdrian comma (1/53 of an octave) in cents
+export const COMMA_CENTS = 1200 / 53;
+
+// Width of each glyph in staff spaces, used to keep accidentals clear of noteheads and ledger lines
+export const ACCIDENTAL_GLYPH_WIDTHS: Record<AccidentalGlyphName, number> = {
+  'natural': 0.8,
+  'sharp': 1,
+  'flat': 0.9,
+  'half-sharp': 0.8,
+  'half-flat': 1.1,
+  'koma-sharp': 1,
+  'bakiye-sharp': 1,
+  'kucuk-mucenneb-sharp': 1.1,
+  'buyuk-mucenneb-sharp': 1.3,
+  'koma-flat': 1.1,
+  'bakiye-flat': 0.9,
+  'kucuk-mucenneb-flat': 1.1,
+  'buyuk-mucenneb-flat': 1.2,
+};
+
+const ARABIC_GLYPHS: Record<Exclude<Accidental, ''>, AccidentalGlyphName> = {
+  '#': 'sharp',
+  'b': 'flat',
+  'h#': 'half-sharp',
+  'hb': 'half-flat',
+};
+
+// Pick the AEU sign closest to an alteration of the given size in commas
+// (koma = 1, bakiye = 4, küçük mücenneb = 5, büyük mücenneb = 8)
+export function turkishGlyphForCommas(commas: number): AccidentalGlyphName | null {
+  const size = Math.abs(Math.round(commas));
+  if (size === 0) return null;
+  const sharp = commas > 0;
+  if (size <= 2) return sharp ? 'koma-sharp' : 'koma-flat';
+  if (size <= 4) return sharp ? 'bakiye-sharp' : 'bakiye-flat';
+  if (size <= 6) return sharp ? 'kucuk-mucenneb-sharp' : 'kucuk-mucenneb-flat';
+  return sharp ? 'buyuk-mucenneb-sharp' : 'buyuk-mucenneb-flat';
+}
+
+// Glyph to draw for a note's accidental in the chosen style (null for naturals).
+// Turkish signs are picked by the alteration's size in the active tuning table.
+export function getAccidentalGlyph(note: Note, style: AccidentalStyle): AccidentalGlyphName | null {
+  if (note.accidental === '') return null;
+  if (style === 'turkish') {
+    const alteration = getTunedCents(note) - getTunedCents({ ...note, accidental: '' });
+    return turkishGlyphForCommas(alteration / COMMA_CENTS);
+  }
+  return ARABIC_GLYPHS[note.accidental];
+}
+
+// Glyph to print next to a notehead under a key signature: nothing when the key implies
+// the accidental, a natural when the note cancels it
+export function getStaffAccidentalGlyph(
+  note: Note,
+  style: AccidentalStyle,
+  key?: KeySignature
+): AccidentalGlyphName | null {
+  const printed = getAccidentalToPrint(note, key);
+  if (printed === null) return null;
+  if (printed === 'natural') return 'natural';
+  return getAccidentalGlyph(note, style);
+}
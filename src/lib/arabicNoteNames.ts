@@ -0,0 +1,72 @@
+// Traditional Arabic pitch names, from Yakah (G2) to Ramal Tuti (G4), with the oud's
+// standard Rast-based register. Lower and higher pitches take the Qarar / Jawab prefixes.
+
+import type { Note } from './noteUtils';
+
+export interface ArabicNoteName {
+  note: Note;
+  latin: string;
+  arabic: string;
+}
+
+export const ARABIC_NOTE_NAMES: ArabicNoteName[] = [
+  { note: { letter: 'G', accidental: '', octave: 2 }, latin: 'Yakah', arabic: 'يكاه' },
+  { note: { letter: 'A', accidental: 'b', octave: 2 }, latin: 'Qarar Hisar', arabic: 'قرار حصار' },
+  { note: { letter: 'A', accidental: 'hb', octave: 2 }, latin: 'Qarar Tik Hisar', arabic: 'قرار تيك حصار' },
+  { note: { letter: 'A', accidental: '', octave: 2 }, latin: 'Ushayran', arabic: 'عشيران' },
+  { note: { letter: 'B', accidental: 'b', octave: 2 }, latin: 'Ajam Ushayran', arabic: 'عجم عشيران' },
+  { note: { letter: 'B', accidental: 'hb', octave: 2 }, latin: 'Iraq', arabic: 'عراق' },
+  { note: { letter: 'B', accidental: '', octave: 2 }, latin: 'Kawasht', arabic: 'كوشت' },
+  { note: { letter: 'C', accidental: '', octave: 3 }, latin: 'Rast', arabic: 'راست' },
+  { note: { letter: 'C', accidental: 'h#', octave: 3 }, latin: 'Nim Zirkulah', arabic: 'نيم زركلاه' },
+  { note: { letter: 'C', accidental: '#', octave: 3 }, latin: 'Zirkulah', arabic: 'زركلاه' },
+  { note: { letter: 'D', accidental: '', octave: 3 }, latin: 'Dugah', arabic: 'دوكاه' },
+  { note: { letter: 'E', accidental: 'b', octave: 3 }, latin: 'Kurd', arabic: 'كرد' },
+  { note: { letter: 'E', accidental: 'hb', octave: 3 }, latin: 'Sikah', arabic: 'سيكاه' },
+  { note: { letter: 'E', accidental: '', octave: 3 }, latin: 'Busalik', arabic: 'بوسليك' },
+  { note: { letter: 'F', accidental: '', octave: 3 }, latin: 'Jaharkah', arabic: 'جهاركاه' },
+  { note: { letter: 'F', accidental: 'h#', octave: 3 }, latin: 'Nim Hijaz', arabic: 'نيم حجاز' },
+  { note: { letter: 'F', accidental: '#', octave: 3 }, latin: 'Hijaz', arabic: 'حجاز' },
+  { note: { letter: 'G', accidental: '', octave: 3 }, latin: 'Nawa', arabic: 'نوى' },
+  { note: { letter: 'A', accidental: 'b', octave: 3 }, latin: 'Hisar', arabic: 'حصار' },
+  { note: { letter: 'A', accidental: 'hb', octave: 3 }, latin: 'Tik Hisar', arabic: 'تيك حصار' },
+  { note: { letter: 'A', accidental: '', octave: 3 }, latin: 'Husayni', arabic: 'حسيني' },
+  { note: { letter: 'B', accidental: 'b', octave: 3 }, latin: 'Ajam', arabic: 'عجم' },
+  { note: { letter: 'B', accidental: 'hb', octave: 3 }, latin: 'Awj', arabic: 'أوج' },
+  { note: { letter: 'B', accidental: '', octave: 3 }, latin: 'Mahur', arabic: 'ماهور' },
+  { note: { letter: 'C', accidental: '', octave: 4 }, latin: 'Kurdan', arabic: 'كردان' },
+  { note: { letter: 'C', accidental: 'h#', octave: 4 }, latin: 'Nim Shahnaz', arabic: 'نيم شهناز' },
+  { note: { letter: 'C', accidental: '#', octave: 4 }, latin: 'Shahnaz', arabic: 'شهناز' },
+  { note: { letter: 'D', accidental: '', octave: 4 }, latin: 'Muhayyar', arabic: 'محير' },
+  { note: { letter: 'E', accidental: 'b', octave: 4 }, latin: 'Sunbulah', arabic: 'سنبلة' },
+  { note: { letter: 'E', accidental: 'hb', octave: 4 }, latin: 'Buzurk', arabic: 'بزرك' },
+  { note: { letter: 'E', accidental: '', octave: 4 }, latin: 'Jawab Busalik', arabic: 'جواب بوسليك' },
+  { note: { letter: 'F', accidental: '', octave: 4 }, latin: 'Mahuran', arabic: 'ماهوران' },
+  { note: { letter: 'F', accidental: 'h#', octave: 4 }, latin: 'Jawab Nim Hijaz', arabic: 'جواب نيم حجاز' },
+  { note: { letter: 'F', accidental: '#', octave: 4 }, latin: 'Jawab Hijaz', arabic: 'جواب حجاز' },
+  { note: { letter: 'G', accidental: '', octave: 4 }, latin: 'Ramal Tuti', arabic: 'رمل توتي' },
+];
+
+// Register prefixes for an octave below / above the named range
+export const QARAR_PREFIX = { latin: 'Qarar', arabic: 'قرار' };
+export const JAWAB_PREFIX = { latin: 'Jawab', arabic: 'جواب' };
+
+// Common alternative transliterations, accepted when parsing
+export const ARABIC_NAME_ALIASES: Record<string, string> = {
+  yegah: 'Yakah',
+  ushairan: 'Ushayran',
+  dukah: 'Dugah',
+  dokah: 'Dugah',
+  segah: 'Sikah',
+  buselik: 'Busalik',
+  chahargah: 'Jaharkah',
+  jiharkah: 'Jaharkah',
+  neva: 'Nawa',
+  husseini: 'Husayni',
+  husaini: 'Husayni',
+  hussaini: 'Husayni',
+  evic: 'Awj',
+  kirdan: 'Kurdan',
+  gerdaniye: 'Kurdan',
+  muhayyer: 'Muhayyar',
+};
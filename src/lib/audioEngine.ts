@@ -1,10 +1,41 @@
 // Web Audio API synthesizer for playing notes
 
-import { Note, noteToFrequency } from './noteUtils';
+import { Note, frequencyToMidi, noteToFrequency } from './noteUtils';
+import { DEFAULT_PLUCK, renderPluckedString } from './pluckedString';
+import { sampleLibrary } from './sampleLibrary';
+import { pitchDetector } from './micPitchDetector';
+import type { StringConfig } from './settings';
+
+// 'synth' is the additive tone; 'oud' a plucked-string model through a body filter;
+// 'samples' the loaded sample pack, falling back to 'oud' until one is ready
+export type InstrumentVoice = 'synth' | 'oud' | 'samples';
+
+export interface PlayOptions {
+  course?: StringConfig; // The course the note is played on
+  courseIndex?: number; // Its index in settings.strings, for per-string samples
+  velocity?: number; // 0-1
+}
+
+// The two strings of a double course are never quite in unison
+const COURSE_DETUNE_CENTS = 3;
+// Nor does the risha cross them at the same instant
+const COURSE_STRUM_SECONDS = 0.006;
+
+// Sound still reaches the mic briefly after the nodes stop, from the room and output buffering
+const PLAYBACK_TAIL_S = 0.08;
+
+// Oud body resonances: the air cavity, the top plate, and the presence of the soundboard
+const BODY_RESONANCES: { frequency: number; q: number; gain: number }[] = [
+  { frequency: 115, q: 3, gain: 8 },
+  { frequency: 270, q: 2.5, gain: 5 },
+  { frequency: 2800, q: 1.2, gain: 3 },
+];
 
 class AudioEngine {
   private audioContext: AudioContext | null = null;
   private masterGain: GainNode | null = null;
+  private bodyInput: AudioNode | null = null;
+  private voice: InstrumentVoice = 'synth';
   
   private initContext() {
     if (!this.audioContext) {
@@ -20,9 +51,164 @@ class AudioEngine {
     }
   }
   
-  // Play a note with a simple plucked string envelope
-  playNote(note: Note, duration: number = 0.8): void {
-    this.playFrequency(noteToFrequency(note), duration);
+  // Shared context and master output for other schedulers (metronome, rhythm player)
+  getOutput(): { context: AudioContext; destination: AudioNode } | null {
+    this.initContext();
+    if (!this.audioContext || !this.masterGain) return null;
+    return { context: this.audioContext, destination: this.masterGain };
+  }
+  
+  // Tell the mic detector when the app is sounding, on this context's clock and with
+  // release tails included, so it doesn't pick up the speaker as the student playing
+  reportPlayback(start: number, end: number): void {
+    if (!this.audioContext) return;
+    const context = this.audioContext;
+    const latency = (context.outputLatency || 0) + (context.baseLatency || 0);
+    const toPerformanceTime = (time: number) => performance.now() + (time - context.currentTime + latency) * 1000;
+    pitchDetector.suppress(toPerformanceTime(start), toPerformanceTime(end + PLAYBACK_TAIL_S));
+  }
+  
+  // Same for a drum stroke or click on this context's clock, which the student plays along
+  // with: only its attack and any pitch at or below `belowHz` are kept from the detector
+  reportPercussion(start: number, end: number, belowHz = 0): void {
+    if (!this.audioContext) return;
+    const context = this.audioContext;
+    const latency = (context.outputLatency || 0) + (context.baseLatency || 0);
+    const toPerformanceTime = (time: number) => performance.now() + (time - context.currentTime + latency) * 1000;
+    pitchDetector.suppressPercussion(toPerformanceTime(start), toPerformanceTime(end + PLAYBACK_TAIL_S), belowHz);
+  }
+  
+  setVoice(voice: InstrumentVoice): void {
+    this.voice = voice;
+    // Only decode samples once a context exists, i.e. after the user has made a sound
+    if (voice === 'samples' && this.audioContext) sampleLibrary.ensureLoaded(this.audioContext);
+  }
+  
+  getVoice(): InstrumentVoice {
+    return this.voice;
+  }
+  
+  // Play a note in the current voice; the oud voice sounds every string of the course
+  playNote(note: Note, duration: number = 0.8, options: PlayOptions = {}): void {
+    const frequency = noteToFrequency(note);
+    if (this.voice === 'samples' && this.playSample(frequency, duration, options)) return;
+    if (this.voice === 'synth') {
+      this.playFrequency(frequency, duration);
+    } else {
+      this.playPluck(frequency, duration, options.course);
+    }
+  }
+  
+  // Play the nearest sample, pitch-shifted to the frequency, then its release tail.
+  // Returns false while no pack is loaded; the first call starts loading one
+  playSample(frequency: number, duration: number = 0.8, options: PlayOptions = {}): boolean {
+    this.initContext();
+    if (!this.audioContext || !this.masterGain) return false;
+    
+    const velocity = options.velocity ?? 0.8;
+    const zone = sampleLibrary.findZone(frequencyToMidi(frequency), velocity, options.courseIndex);
+    if (!zone) {
+      sampleLibrary.ensureLoaded(this.audioContext);
+      return false;
+    }
+    
+    const context = this.audioContext;
+    const now = context.currentTime;
+    const rate = frequency / zone.rootFrequency;
+    // Layers are recorded at their own loudness; velocity only trims within a layer
+    const level = 0.4 + 0.6 * velocity;
+    const release = now + duration;
+    const fade = 0.08;
+    const tailLength = zone.release ? zone.release.duration / rate : 0;
+    this.reportPlayback(now, Math.max(release + fade, release + tailLength));
+    
+    const source = context.createBufferSource();
+    source.buffer = zone.buffer;
+    source.playbackRate.value = rate;
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(level, now);
+    gain.gain.setValueAtTime(level, release);
+    gain.gain.linearRampToValueAtTime(0, release + fade);
+    source.connect(gain);
+    gain.connect(this.masterGain);
+    source.start(now);
+    source.stop(release + fade);
+    
+    if (zone.release) {
+      const tail = context.createBufferSource();
+      tail.buffer = zone.release;
+      tail.playbackRate.value = rate;
+      const tailGain = context.createGain();
+      tailGain.gain.value = level;
+      tail.connect(tailGain);
+      tailGain.connect(this.masterGain);
+      tail.start(release);
+    }
+    return true;
+  }
+  
+  // Pluck a course with the string model. An octave pair keeps its interval up the neck
+  playPluck(frequency: number, duration: number = 0.8, course?: StringConfig): void {
+    this.initContext();
+    const body = this.getBody();
+    if (!this.audioContext || !body) return;
+    
+    const context = this.audioContext;
+    const now = context.currentTime;
+    const courseCount = Math.max(1, course?.courseCount ?? 1);
+    // Let the string ring past the nominal duration, as a real one does
+    const length = duration + 0.7;
+    this.reportPlayback(now, now + (courseCount - 1) * COURSE_STRUM_SECONDS + length);
+    
+    for (let i = 0; i < courseCount; i++) {
+      let stringFrequency = frequency;
+      if (i === 1 && course?.octaveNote) {
+        stringFrequency *= noteToFrequency(course.octaveNote) / noteToFrequency(course.openNote);
+      } else if (courseCount > 1) {
+        const cents = (i % 2 === 0 ? -0.5 : 0.5) * COURSE_DETUNE_CENTS;
+        stringFrequency *= Math.pow(2, cents / 1200);
+      }
+      
+      const samples = renderPluckedString(context.sampleRate, stringFrequency, length, {
+        ...DEFAULT_PLUCK,
+        decaySeconds: duration * 2,
+      });
+      const buffer = context.createBuffer(1, samples.length, context.sampleRate);
+      buffer.copyToChannel(samples, 0);
+      
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      const gain = context.createGain();
+      const start = now + i * COURSE_STRUM_SECONDS;
+      // Share the level between the strings and fade out the tail without a click
+      gain.gain.setValueAtTime(0.8 / Math.sqrt(courseCount), start);
+      gain.gain.setValueAtTime(0.8 / Math.sqrt(courseCount), start + length - 0.05);
+      gain.gain.linearRampToValueAtTime(0, start + length);
+      
+      source.connect(gain);
+      gain.connect(body);
+      source.start(start);
+      source.stop(start + length);
+    }
+  }
+  
+  // Body resonance filter chain into the master gain, built once
+  private getBody(): AudioNode | null {
+    if (!this.audioContext || !this.masterGain) return null;
+    if (!this.bodyInput) {
+      let next: AudioNode = this.masterGain;
+      for (const resonance of [...BODY_RESONANCES].reverse()) {
+        const filter = this.audioContext.createBiquadFilter();
+        filter.type = 'peaking';
+        filter.frequency.value = resonance.frequency;
+        filter.Q.value = resonance.q;
+        filter.gain.value = resonance.gain;
+        filter.connect(next);
+        next = filter;
+      }
+      this.bodyInput = next;
+    }
+    return this.bodyInput;
   }
   
   // Play a frequency with envelope
@@ -32,6 +218,7 @@ class AudioEngine {
     if (!this.audioContext || !this.masterGain) return;
     
     const now = this.audioContext.currentTime;
+    this.reportPlayback(now, now + duration);
     
     // Create oscillators for a richer oud-like sound
     const fundamental = this.audioContext.createOscillator();
@@ -92,6 +279,7 @@ class AudioEngine {
     if (!this.audioContext || !this.masterGain) return;
     
     const now = this.audioContext.currentTime;
+    this.reportPlayback(now, now + 0.3);
     
     // High pitched "ding"
     const osc = this.audioContext.createOscillator();
@@ -117,6 +305,7 @@ class AudioEngine {
     if (!this.audioContext || !this.masterGain) return;
     
     const now = this.audioContext.currentTime;
+    this.reportPlayback(now, now + 0.2);
     
     // Low pitched "buzz"
     const osc = this.audioContext.createOscillator();
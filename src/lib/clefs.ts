@@ -0,0 +1,63 @@
+// Clefs for staff rendering and the written-vs-sounding octave offset
+
+import { Note } from './noteUtils';
+
+export type ClefId = 'treble' | 'treble-8vb' | 'bass' | 'alto';
+
+export interface Clef {
+  id: ClefId;
+  name: string;
+  // Music symbol drawn at the start of the staff
+  glyph: string;
+  // Sounding pitch that sits on the middle staff line
+  middleLine: Note;
+  // Glyph baseline below the middle line, in staff spaces
+  glyphBaseline: number;
+  // Small octave mark printed under the clef (treble-8vb)
+  octaveMark?: string;
+  // Key signature positions relative to the treble layout, in staff steps
+  keySignatureShift: number;
+}
+
+export const CLEFS: Clef[] = [
+  {
+    id: 'treble',
+    name: 'Treble',
+    glyph: '𝄞',
+    middleLine: { letter: 'B', accidental: '', octave: 4 },
+    glyphBaseline: 1.75,
+    keySignatureShift: 0,
+  },
+  {
+    id: 'treble-8vb',
+    name: 'Treble 8vb (oud)',
+    glyph: '𝄞',
+    middleLine: { letter: 'B', accidental: '', octave: 3 },
+    glyphBaseline: 1.75,
+    octaveMark: '8',
+    keySignatureShift: 0,
+  },
+  {
+    id: 'bass',
+    name: 'Bass',
+    glyph: '𝄢',
+    middleLine: { letter: 'D', accidental: '', octave: 3 },
+    glyphBaseline: 0.9,
+    keySignatureShift: -2,
+  },
+  {
+    id: 'alto',
+    name: 'Alto',
+    glyph: '𝄡',
+    middleLine: { letter: 'C', accidental: '', octave: 4 },
+    glyphBaseline: 1.9,
+    keySignatureShift: -1,
+  },
+];
+
+// Most oud methods write an octave above sounding pitch in treble clef
+export const DEFAULT_CLEF_ID: ClefId = 'treble-8vb';
+
+export function getClef(id: ClefId): Clef {
+  return CLEFS.find(c => c.id === id) ?? CLEFS.find(c => c.id === DEFAULT_CLEF_ID)!;
+}
@@ -0,0 +1,49 @@
+// Ear training: playing a hidden target, and the answers offered for it
+
+import { Note, NotationSystem, formatNote, noteToMidi } from './noteUtils';
+import { audioEngine } from './audioEngine';
+
+export interface EarAnswer {
+  key: string;
+  label: string;
+  note: Note; // What choosing this answer plays into the scoring
+}
+
+// Pause between the reference tone and the target
+const REFERENCE_GAP_MS = 1000;
+
+const SIMPLE_INTERVALS = ['P1', 'm2', 'M2', 'm3', 'M3', 'P4', 'TT', 'P5', 'm6', 'M6', 'm7', 'M7'];
+// Quarter-tone intervals with maqam names; the rest read as a semitone interval plus a quarter
+const NEUTRAL_INTERVALS: Record<number, string> = { 1.5: 'n2', 3.5: 'n3', 8.5: 'n6', 10.5: 'n7' };
+
+// Short interval name for a distance in semitones, e.g. 'M3', 'n3', 'P8+m3'
+export function intervalName(semitones: number): string {
+  const octaves = Math.floor(semitones / 12);
+  const simple = semitones - octaves * 12;
+  const name = NEUTRAL_INTERVALS[simple] ?? (Number.isInteger(simple)
+    ? SIMPLE_INTERVALS[simple]
+    : `${SIMPLE_INTERVALS[Math.floor(simple)]}+¼`);
+  if (octaves === 0) return name;
+  const octaveName = octaves === 1 ? 'P8' : `${octaves}×P8`;
+  return simple === 0 ? octaveName : `${octaveName}+${name}`;
+}
+
+// One answer per note the exercise can ask for, by name or as an interval above `intervalsFrom`
+export function getEarAnswers(candidates: Note[], system: NotationSystem, intervalsFrom: Note | null): EarAnswer[] {
+  return candidates.map(note => ({
+    key: String(noteToMidi(note)),
+    label: intervalsFrom ? intervalName(noteToMidi(note) - noteToMidi(intervalsFrom)) : formatNote(note, system),
+    note,
+  }));
+}
+
+// Play the reference (if any) then the target; returns a function that cancels what hasn't sounded yet
+export function playEarPrompt(target: Note, reference: Note | null): () => void {
+  if (!reference) {
+    audioEngine.playNote(target, 1.2);
+    return () => {};
+  }
+  audioEngine.playNote(reference, 0.8);
+  const timeoutId = setTimeout(() => audioEngine.playNote(target, 1.2), REFERENCE_GAP_MS);
+  return () => clearTimeout(timeoutId);
+}
@@ -0,0 +1,55 @@
+// Radix-2 FFT shared by onset detection and the pitch estimators
+
+// In-place iterative radix-2 FFT; length must be a power of two
+export function fft(re: Float32Array, im: Float32Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    // Twiddles by recurrence: two trig calls per stage rather than per butterfly
+    const stepCos = Math.cos((-2 * Math.PI) / size);
+    const stepSin = Math.sin((-2 * Math.PI) / size);
+    let cos = 1;
+    let sin = 0;
+    for (let k = 0; k < half; k++) {
+      for (let start = 0; start < n; start += size) {
+        const a = start + k;
+        const b = a + half;
+        const tr = re[b] * cos - im[b] * sin;
+        const ti = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+      const nextCos = cos * stepCos - sin * stepSin;
+      sin = cos * stepSin + sin * stepCos;
+      cos = nextCos;
+    }
+  }
+}
+
+// Inverse of fft, scaled, by conjugating around the forward transform
+export function inverseFft(re: Float32Array, im: Float32Array): void {
+  const n = re.length;
+  for (let i = 0; i < n; i++) im[i] = -im[i];
+  fft(re, im);
+  for (let i = 0; i < n; i++) {
+    re[i] /= n;
+    im[i] = -im[i] / n;
+  }
+}
+
+export function nextPowerOfTwo(n: number): number {
+  let size = 1;
+  while (size < n) size <<= 1;
+  return size;
+}
@@ -0,0 +1,73 @@
+// Name-the-note flashcards: the answer pad's choices and per-note statistics
+
+import { Note, NotationSystem, formatNote, formatNoteShort, noteToMidi } from './noteUtils';
+import { noteKey } from './settings';
+
+export interface NoteStats {
+  note: Note;
+  attempts: number;
+  correct: number;
+  totalMs: number; // Response time summed over the correct answers
+}
+
+export interface FlashcardStats {
+  streak: number;
+  bestStreak: number;
+  lastMs: number | null; // Response time of the last correct answer
+  notes: Record<string, NoteStats>; // By noteKey
+}
+
+export const EMPTY_FLASHCARD_STATS: FlashcardStats = { streak: 0, bestStreak: 0, lastMs: null, notes: {} };
+
+// A button on the answer pad; without octaves one name covers the note in every octave
+export interface NameChoice {
+  label: string;
+  notes: Note[];
+}
+
+export function getNameChoices(candidates: Note[], system: NotationSystem, withOctave: boolean): NameChoice[] {
+  const choices = new Map<string, NameChoice>();
+  for (const note of candidates) {
+    const label = withOctave ? formatNote(note, system) : formatNoteShort(note, system);
+    const choice = choices.get(label);
+    if (choice) choice.notes.push(note);
+    else choices.set(label, { label, notes: [note] });
+  }
+  return [...choices.values()];
+}
+
+// The note a choice stands for when naming the target: the one in the target's octave if it has one
+export function noteForChoice(choice: NameChoice, target: Note): Note {
+  const targetMidi = noteToMidi(target);
+  return choice.notes.reduce((best, note) =>
+    Math.abs(noteToMidi(note) - targetMidi) < Math.abs(noteToMidi(best) - targetMidi) ? note : best
+  );
+}
+
+export function recordFlashcardAnswer(stats: FlashcardStats, target: Note, correct: boolean, responseMs: number): FlashcardStats {
+  const key = noteKey(target);
+  const previous = stats.notes[key] ?? { note: target, attempts: 0, correct: 0, totalMs: 0 };
+  const streak = correct ? stats.streak + 1 : 0;
+  return {
+    streak,
+    bestStreak: Math.max(stats.bestStreak, streak),
+    lastMs: correct ? responseMs : stats.lastMs,
+    notes: {
+      ...stats.notes,
+      [key]: {
+        note: target,
+        attempts: previous.attempts + 1,
+        correct: previous.correct + (correct ? 1 : 0),
+        totalMs: previous.totalMs + (correct ? responseMs : 0),
+      },
+    },
+  };
+}
+
+// Notes most in need of practice first: lowest accuracy, then slowest
+export function weakestNotes(stats: FlashcardStats): NoteStats[] {
+  const averageMs = (s: NoteStats) => (s.correct > 0 ? s.totalMs / s.correct : Infinity);
+  return Object.values(stats.notes).sort(
+    (a, b) => a.correct / a.attempts - b.correct / b.attempts || averageMs(b) - averageMs(a)
+  );
+}
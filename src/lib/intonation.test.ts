@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { judgeIntonation } from './intonation';
+import type { DetectedNote } from './micPitchDetector';
+import { Note, midiToNote, noteToTunedMidi, setTuning } from './noteUtils';
+import { BUILT_IN_TUNINGS } from './tuning';
+
+const n = (letter: Note['letter'], octave: number, accidental: Note['accidental'] = ''): Note => ({ letter, accidental, octave });
+
+// A detection the way the detector reports it: against the default spelling of the quantized pitch
+function heard(exactMidi: number, spread = 5): DetectedNote {
+  const midi = Math.round(exactMidi * 2) / 2;
+  return {
+    note: midiToNote(midi),
+    midi,
+    cents: 0,
+    meanCents: (exactMidi - noteToTunedMidi(midiToNote(midi))) * 100,
+    centsSpread: spread,
+    frequency: 0,
+    clarity: 0.95,
+    onsetTs: 0,
+    audioTime: 0,
+  };
+}
+
+afterEach(() => setTuning(null));
+
+describe('judgeIntonation', () => {
+  it('passes a note within the tolerance', () => {
+    const result = judgeIntonation(heard(64.05), n('E', 4), 10);
+    expect(result.verdict).toBe('in-tune');
+    expect(result.cents).toBeCloseTo(5);
+  });
+
+  it('says which way a note is off', () => {
+    expect(judgeIntonation(heard(63.8), n('E', 4), 10).verdict).toBe('flat');
+    expect(judgeIntonation(heard(64.2), n('E', 4), 10).verdict).toBe('sharp');
+  });
+
+  it('calls a wobbling note unsteady even when its average is in tune', () => {
+    expect(judgeIntonation(heard(64, 35), n('E', 4), 10).verdict).toBe('unsteady');
+  });
+
+  it('measures against the target spelling, not the pitch the detector named', () => {
+    setTuning(BUILT_IN_TUNINGS['arabic-53']);
+    // On the 53-comma table D♭ sits a comma under C♯, the spelling the detector uses
+    const target = n('D', 4, 'b');
+    expect(Math.abs(heard(noteToTunedMidi(target)).meanCents)).toBeGreaterThan(20);
+    const result = judgeIntonation(heard(noteToTunedMidi(target)), target, 5);
+    expect(result.verdict).toBe('in-tune');
+    expect(Math.abs(result.cents)).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,28 @@
+// Intonation of a mic attempt against its target, judged apart from note identity
+
+import { Note, midiToNote, noteToFrequency } from './noteUtils';
+import type { DetectedNote } from './micPitchDetector';
+
+export type IntonationVerdict = 'in-tune' | 'flat' | 'sharp' | 'unsteady';
+
+export interface IntonationResult {
+  verdict: IntonationVerdict;
+  cents: number; // Average deviation from the target as tuned by the active table
+  spread: number; // Pitch wobble over the attempt, in cents
+}
+
+// Past this much wobble the attempt is unsteady, however close its average
+const MAX_SPREAD_CENTS = 20;
+
+export function judgeIntonation(detection: DetectedNote, target: Note, toleranceCents: number): IntonationResult {
+  // The detector measures against the default spelling of the pitch it heard;
+  // re-reference to the target so spellings tuned apart (E𝄳 vs D𝄲) are respected
+  const heard = noteToFrequency(midiToNote(detection.midi));
+  const cents = detection.meanCents + 1200 * Math.log2(heard / noteToFrequency(target));
+  const spread = detection.centsSpread;
+
+  let verdict: IntonationVerdict = 'in-tune';
+  if (Math.abs(cents) > toleranceCents) verdict = cents < 0 ? 'flat' : 'sharp';
+  else if (spread > MAX_SPREAD_CENTS) verdict = 'unsteady';
+  return { verdict, cents, spread };
+}
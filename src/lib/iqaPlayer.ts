@@ -0,0 +1,253 @@
+// Iqa' (Arabic rhythmic cycle) backing player with synthesized dumm/tak/ka strokes
+
+import { audioEngine } from './audioEngine';
+
+export type Stroke = 'dumm' | 'tak' | 'ka' | null;
+
+export type IqaId = 'maqsum' | 'baladi' | 'saidi' | 'masmudi' | 'samai-thaqil' | 'wahda';
+
+export interface Iqa {
+  id: IqaId;
+  name: string;
+  arabic: string;
+  beats: number;
+  beatValue: 4 | 8;
+  // One entry per eighth note; null is a silent step
+  strokes: Stroke[];
+}
+
+// Step as it reaches the speaker
+export interface IqaStep {
+  step: number;
+  stroke: Stroke;
+  time: number; // performance.now() timebase, in ms
+}
+
+type StepListener = (step: IqaStep) => void;
+
+const D: Stroke = 'dumm';
+const T: Stroke = 'tak';
+const _: Stroke = null;
+
+export const IQAAT: Iqa[] = [
+  { id: 'maqsum', name: 'Maqsum', arabic: 'مقسوم', beats: 4, beatValue: 4, strokes: [D, T, _, T, D, _, T, _] },
+  { id: 'baladi', name: 'Baladi', arabic: 'بلدي', beats: 4, beatValue: 4, strokes: [D, D, _, T, D, _, T, _] },
+  { id: 'saidi', name: "Sa'idi", arabic: 'صعيدي', beats: 4, beatValue: 4, strokes: [D, T, _, D, D, _, T, _] },
+  {
+    id: 'masmudi',
+    name: 'Masmudi Kabir',
+    arabic: 'مصمودي كبير',
+    beats: 8,
+    beatValue: 4,
+    strokes: [D, _, D, _, _, _, T, _, D, _, _, _, T, _, _, _],
+  },
+  {
+    id: 'samai-thaqil',
+    name: "Sama'i Thaqil",
+    arabic: 'سماعي ثقيل',
+    beats: 10,
+    beatValue: 8,
+    strokes: [D, _, _, _, T, _, D, D, T, _],
+  },
+  { id: 'wahda', name: 'Wahda', arabic: 'وحدة', beats: 4, beatValue: 4, strokes: [D, _, _, _, T, _, _, _] },
+];
+
+export function getIqa(id: IqaId): Iqa {
+  return IQAAT.find(i => i.id === id) ?? IQAAT[0];
+}
+
+// Fill the silent off-beats with light ka strokes, as a drummer would ornament the cycle
+export function withKaFills(strokes: Stroke[]): Stroke[] {
+  return strokes.map(stroke => stroke ?? 'ka');
+}
+
+// How often the scheduler wakes up and how far ahead it books strokes
+const SCHEDULER_INTERVAL_MS = 25;
+const SCHEDULE_AHEAD_S = 0.1;
+
+// The dumm's sweep starts at 130 Hz and is down ~40 dB after 0.3 s; until then the mic
+// detector ignores pitches in its range, which the lowest courses share
+const DUMM_BODY_S = 0.3;
+const DUMM_TOP_HZ = 140;
+
+class IqaPlayer {
+  private iqa: Iqa = IQAAT[0];
+  private bpm = 72; // Beats of the iqa's beat unit per minute
+  private fills = false;
+  private context: AudioContext | null = null;
+  private destination: AudioNode | null = null;
+  private noiseBuffer: AudioBuffer | null = null;
+  private timerId: ReturnType<typeof setInterval> | null = null;
+  private nextStepTime = 0; // Audio clock, seconds
+  private stepIndex = 0;
+  private listeners = new Set<StepListener>();
+  private pendingTimeouts = new Set<ReturnType<typeof setTimeout>>();
+
+  configure(options: { iqa?: Iqa; bpm?: number; fills?: boolean }): void {
+    if (options.iqa && options.iqa.id !== this.iqa.id) {
+      this.iqa = options.iqa;
+      this.stepIndex = 0;
+    }
+    if (options.bpm !== undefined) this.bpm = options.bpm;
+    if (options.fills !== undefined) this.fills = options.fills;
+  }
+
+  isPlaying(): boolean {
+    return this.timerId !== null;
+  }
+
+  start(): void {
+    if (this.isPlaying()) this.stop();
+
+    const output = audioEngine.getOutput();
+    if (!output) return;
+    if (this.context !== output.context) {
+      this.context = output.context;
+      this.noiseBuffer = null;
+    }
+    this.destination = output.destination;
+
+    this.stepIndex = 0;
+    this.nextStepTime = this.context.currentTime + 0.05;
+    this.schedule();
+    this.timerId = setInterval(() => this.schedule(), SCHEDULER_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timerId !== null) {
+      clearInterval(this.timerId);
+      this.timerId = null;
+    }
+    this.pendingTimeouts.forEach(id => clearTimeout(id));
+    this.pendingTimeouts.clear();
+  }
+
+  onStep(listener: StepListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Strokes are written in eighth notes; the tempo counts the iqa's beat unit
+  private stepDuration(): number {
+    return (60 / this.bpm) * (this.iqa.beatValue / 8);
+  }
+
+  private schedule(): void {
+    if (!this.context) return;
+    while (this.nextStepTime < this.context.currentTime + SCHEDULE_AHEAD_S) {
+      const strokes = this.fills ? withKaFills(this.iqa.strokes) : this.iqa.strokes;
+      const step = this.stepIndex % strokes.length;
+      this.scheduleStroke(step, strokes[step], this.nextStepTime);
+      this.stepIndex = step + 1;
+      this.nextStepTime += this.stepDuration();
+    }
+  }
+
+  private scheduleStroke(step: number, stroke: Stroke, time: number): void {
+    // Strokes land where the student plays, so only their attacks and the dumm's low
+    // sweep are kept from the mic, not every frame while they sound
+    if (stroke === 'dumm') {
+      this.playDumm(time);
+      audioEngine.reportPercussion(time, time + DUMM_BODY_S, DUMM_TOP_HZ);
+    }
+    if (stroke === 'tak') this.playTak(time, 0.5);
+    if (stroke === 'ka') this.playTak(time, 0.2);
+    if (stroke === 'tak' || stroke === 'ka') audioEngine.reportPercussion(time, time + 0.1);
+
+    if (!this.context) return;
+    const latency = (this.context.outputLatency || 0) + (this.context.baseLatency || 0);
+    const event: IqaStep = {
+      step,
+      stroke,
+      time: performance.now() + (time - this.context.currentTime + latency) * 1000,
+    };
+    const timeoutId = setTimeout(() => {
+      this.pendingTimeouts.delete(timeoutId);
+      this.listeners.forEach(listener => listener(event));
+    }, Math.max(0, event.time - performance.now()));
+    this.pendingTimeouts.add(timeoutId);
+  }
+
+  // Half a second of white noise, shared by every tak and ka
+  private getNoiseBuffer(): AudioBuffer | null {
+    if (!this.context) return null;
+    if (!this.noiseBuffer) {
+      const length = Math.floor(this.context.sampleRate * 0.5);
+      this.noiseBuffer = this.context.createBuffer(1, length, this.context.sampleRate);
+      const data = this.noiseBuffer.getChannelData(0);
+      for (let i = 0; i < length; i++) data[i] = Math.random() * 2 - 1;
+    }
+    return this.noiseBuffer;
+  }
+
+  // Dumm: the deep centre stroke, a falling sine with a soft skin thump
+  private playDumm(time: number): void {
+    if (!this.context || !this.destination) return;
+
+    const osc = this.context.createOscillator();
+    const gain = this.context.createGain();
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(130, time);
+    osc.frequency.exponentialRampToValueAtTime(55, time + 0.25);
+    gain.gain.setValueAtTime(0.9, time);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + 0.45);
+    osc.connect(gain);
+    gain.connect(this.destination);
+    osc.start(time);
+    osc.stop(time + 0.5);
+
+    const noise = this.getNoiseBuffer();
+    if (!noise) return;
+    const thump = this.context.createBufferSource();
+    const lowpass = this.context.createBiquadFilter();
+    const thumpGain = this.context.createGain();
+    thump.buffer = noise;
+    lowpass.type = 'lowpass';
+    lowpass.frequency.value = 400;
+    thumpGain.gain.setValueAtTime(0.3, time);
+    thumpGain.gain.exponentialRampToValueAtTime(0.001, time + 0.06);
+    thump.connect(lowpass);
+    lowpass.connect(thumpGain);
+    thumpGain.connect(this.destination);
+    thump.start(time);
+    thump.stop(time + 0.08);
+  }
+
+  // Tak and ka: the dry rim strokes, band-passed noise with a short ring
+  private playTak(time: number, level: number): void {
+    if (!this.context || !this.destination) return;
+    const noise = this.getNoiseBuffer();
+    if (!noise) return;
+
+    const source = this.context.createBufferSource();
+    const bandpass = this.context.createBiquadFilter();
+    const gain = this.context.createGain();
+    source.buffer = noise;
+    bandpass.type = 'bandpass';
+    bandpass.frequency.value = 3200;
+    bandpass.Q.value = 1.2;
+    gain.gain.setValueAtTime(level, time);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + 0.07);
+    source.connect(bandpass);
+    bandpass.connect(gain);
+    gain.connect(this.destination);
+    source.start(time);
+    source.stop(time + 0.1);
+
+    const ring = this.context.createOscillator();
+    const ringGain = this.context.createGain();
+    ring.type = 'triangle';
+    ring.frequency.value = 520;
+    ringGain.gain.setValueAtTime(level * 0.4, time);
+    ringGain.gain.exponentialRampToValueAtTime(0.001, time + 0.05);
+    ring.connect(ringGain);
+    ringGain.connect(this.destination);
+    ring.start(time);
+    ring.stop(time + 0.06);
+  }
+}
+
+// Export singleton instance
+export const iqaPlayer = new IqaPlayer();
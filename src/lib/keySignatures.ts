@@ -0,0 +1,85 @@
+// Key and maqam signatures for exercises and staff rendering
+
+import { Accidental, Note, NoteLetter } from './noteUtils';
+import type { Clef } from './clefs';
+
+export type KeySignatureId =
+  | 'c-major'
+  | 'g-major'
+  | 'd-major'
+  | 'a-major'
+  | 'f-major'
+  | 'bb-major'
+  | 'eb-major'
+  | 'rast'
+  | 'bayati'
+  | 'sikah'
+  | 'saba'
+  | 'hijaz'
+  | 'kurd'
+  | 'nahawand'
+  | 'ajam';
+
+export interface KeySignature {
+  id: KeySignatureId;
+  name: string;
+  group: 'western' | 'maqam';
+  accidentals: Partial<Record<NoteLetter, Accidental>>;
+}
+
+export const KEY_SIGNATURES: KeySignature[] = [
+  { id: 'c-major', name: 'C major / A minor', group: 'western', accidentals: {} },
+  { id: 'g-major', name: 'G major / E minor', group: 'western', accidentals: { F: '#' } },
+  { id: 'd-major', name: 'D major / B minor', group: 'western', accidentals: { F: '#', C: '#' } },
+  { id: 'a-major', name: 'A major / F♯ minor', group: 'western', accidentals: { F: '#', C: '#', G: '#' } },
+  { id: 'f-major', name: 'F major / D minor', group: 'western', accidentals: { B: 'b' } },
+  { id: 'bb-major', name: 'B♭ major / G minor', group: 'western', accidentals: { B: 'b', E: 'b' } },
+  { id: 'eb-major', name: 'E♭ major / C minor', group: 'western', accidentals: { B: 'b', E: 'b', A: 'b' } },
+  { id: 'rast', name: 'Rast on C', group: 'maqam', accidentals: { B: 'hb', E: 'hb' } },
+  { id: 'bayati', name: 'Bayati on D', group: 'maqam', accidentals: { B: 'b', E: 'hb' } },
+  { id: 'sikah', name: 'Sikah on E𝄳', group: 'maqam', accidentals: { B: 'hb', E: 'hb' } },
+  { id: 'saba', name: 'Saba on D', group: 'maqam', accidentals: { B: 'b', E: 'hb', G: 'b' } },
+  { id: 'hijaz', name: 'Hijaz on D', group: 'maqam', accidentals: { B: 'b', E: 'b', F: '#' } },
+  { id: 'kurd', name: 'Kurd on D', group: 'maqam', accidentals: { B: 'b', E: 'b' } },
+  { id: 'nahawand', name: 'Nahawand on C', group: 'maqam', accidentals: { B: 'b', E: 'b', A: 'b' } },
+  { id: 'ajam', name: 'Ajam on B♭', group: 'maqam', accidentals: { B: 'b', E: 'b' } },
+];
+
+export function getKeySignature(id: KeySignatureId): KeySignature {
+  return KEY_SIGNATURES.find(k => k.id === id) ?? KEY_SIGNATURES[0];
+}
+
+// Traditional engraving order: flats (and half-flats) first, then sharps
+const FLAT_ORDER: NoteLetter[] = ['B', 'E', 'A', 'D', 'G', 'C', 'F'];
+const SHARP_ORDER: NoteLetter[] = ['F', 'C', 'G', 'D', 'A', 'E', 'B'];
+
+// Staff steps from the middle line for each signature accidental (treble clef layout)
+const FLAT_POSITIONS: Record<NoteLetter, number> = { B: 0, E: 3, A: -1, D: 2, G: -2, C: 1, F: -3 };
+const SHARP_POSITIONS: Record<NoteLetter, number> = { F: 4, C: 1, G: 5, D: 2, A: -1, E: 3, B: 0 };
+
+const isFlatType = (accidental: Accidental) => accidental === 'b' || accidental === 'hb';
+
+// Accidentals to draw after the clef, in order, with their staff positions
+export function getKeySignatureLayout(key: KeySignature, clef?: Clef): { letter: NoteLetter; accidental: Accidental; position: number }[] {
+  const shift = clef?.keySignatureShift ?? 0;
+  const flats = FLAT_ORDER
+    .filter(letter => key.accidentals[letter] && isFlatType(key.accidentals[letter]!))
+    .map(letter => ({ letter, accidental: key.accidentals[letter]!, position: FLAT_POSITIONS[letter] + shift }));
+  const sharps = SHARP_ORDER
+    .filter(letter => key.accidentals[letter] && !isFlatType(key.accidentals[letter]!))
+    .map(letter => ({ letter, accidental: key.accidentals[letter]!, position: SHARP_POSITIONS[letter] + shift }));
+  return [...flats, ...sharps];
+}
+
+// Whether a note's spelling belongs to the signature (its accidental is implied by the key)
+export function isInKey(note: Note, key: KeySignature | undefined): boolean {
+  return note.accidental === (key?.accidentals[note.letter] ?? '');
+}
+
+// Accidental a note needs on the staff under a signature:
+// null when the key already implies it, 'natural' when it cancels the key's accidental
+export function getAccidentalToPrint(note: Note, key: KeySignature | undefined): Accidental | 'natural' | null {
+  if (isInKey(note, key)) return null;
+  if (note.accidental === '') return 'natural';
+  return note.accidental;
+}
@@ -0,0 +1,192 @@
+// Metronome with lookahead scheduling on the audio engine's AudioContext
+
+import { audioEngine } from './audioEngine';
+import { TimeSignature, isCompound } from './rhythm';
+
+export type AccentLevel = 'strong' | 'medium' | 'weak' | 'mute';
+
+export interface MetronomeConfig {
+  bpm: number; // Beats of the time signature's beat unit per minute
+  accents: AccentLevel[]; // One entry per beat of the bar
+  subdivision: number; // Clicks per beat
+  countInBars: number;
+}
+
+// One click as it reaches the speaker
+export interface MetronomeTick {
+  bar: number; // Negative during the count-in
+  beat: number;
+  subdivision: number; // 0 on the beat itself
+  accent: AccentLevel;
+  countIn: boolean;
+  time: number; // performance.now() timebase, in ms
+}
+
+type TickListener = (tick: MetronomeTick) => void;
+
+export const ACCENT_LEVELS: AccentLevel[] = ['strong', 'medium', 'weak', 'mute'];
+
+// Click pitch and level per accent; subdivisions are softer still
+const CLICK_SOUNDS: Record<AccentLevel, { frequency: number; gain: number }> = {
+  strong: { frequency: 1600, gain: 0.5 },
+  medium: { frequency: 1200, gain: 0.35 },
+  weak: { frequency: 900, gain: 0.25 },
+  mute: { frequency: 0, gain: 0 },
+};
+const SUBDIVISION_CLICK = { frequency: 700, gain: 0.12 };
+
+// How often the scheduler wakes up and how far ahead it books clicks
+const SCHEDULER_INTERVAL_MS = 25;
+const SCHEDULE_AHEAD_S = 0.1;
+
+// Downbeat accent, plus a medium accent on each dotted-quarter pulse in compound meters
+export function defaultAccentPattern(timeSignature: TimeSignature): AccentLevel[] {
+  return Array.from({ length: timeSignature.beats }, (_, i) => {
+    if (i === 0) return 'strong';
+    if (isCompound(timeSignature) && i % 3 === 0) return 'medium';
+    return 'weak';
+  });
+}
+
+class Metronome {
+  private config: MetronomeConfig = {
+    bpm: 72,
+    accents: ['strong', 'weak', 'weak', 'weak'],
+    subdivision: 1,
+    countInBars: 1,
+  };
+  private context: AudioContext | null = null;
+  private destination: AudioNode | null = null;
+  private timerId: ReturnType<typeof setInterval> | null = null;
+  private nextClickTime = 0; // Audio clock, seconds
+  private clickIndex = 0; // Subdivision clicks since the start, count-in included
+  private downbeatAudioTime = 0;
+  private listeners = new Set<TickListener>();
+  private pendingTimeouts = new Set<ReturnType<typeof setTimeout>>();
+
+  // Changes apply from the next click, which then starts a fresh bar
+  configure(config: Partial<MetronomeConfig>): void {
+    this.config = { ...this.config, ...config };
+    if (this.isRunning()) {
+      this.clickIndex = 0;
+      this.downbeatAudioTime = this.nextClickTime;
+    }
+  }
+
+  getConfig(): MetronomeConfig {
+    return this.config;
+  }
+
+  isRunning(): boolean {
+    return this.timerId !== null;
+  }
+
+  // Start clicking; returns when bar 0 begins (after the count-in) in performance.now() ms
+  start(): number {
+    if (this.isRunning()) this.stop();
+
+    const output = audioEngine.getOutput();
+    if (!output) return performance.now();
+    this.context = output.context;
+    this.destination = output.destination;
+
+    const clicksBeforeDownbeat = this.config.countInBars * this.config.accents.length * this.config.subdivision;
+    this.nextClickTime = this.context.currentTime + 0.05;
+    this.downbeatAudioTime = this.nextClickTime + clicksBeforeDownbeat * this.clickDuration();
+    this.clickIndex = -clicksBeforeDownbeat;
+
+    this.schedule();
+    this.timerId = setInterval(() => this.schedule(), SCHEDULER_INTERVAL_MS);
+    return this.toPerformanceTime(this.downbeatAudioTime);
+  }
+
+  stop(): void {
+    if (this.timerId !== null) {
+      clearInterval(this.timerId);
+      this.timerId = null;
+    }
+    this.pendingTimeouts.forEach(id => clearTimeout(id));
+    this.pendingTimeouts.clear();
+  }
+
+  // When bar 0 began (or will begin), in performance.now() ms; null when stopped
+  getDownbeatTime(): number | null {
+    return this.isRunning() ? this.toPerformanceTime(this.downbeatAudioTime) : null;
+  }
+
+  onTick(listener: TickListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private clickDuration(): number {
+    return 60 / this.config.bpm / this.config.subdivision;
+  }
+
+  // Map the audio clock to performance.now(), including the time it takes to reach the speaker
+  private toPerformanceTime(audioTime: number): number {
+    if (!this.context) return performance.now();
+    const latency = (this.context.outputLatency || 0) + (this.context.baseLatency || 0);
+    return performance.now() + (audioTime - this.context.currentTime + latency) * 1000;
+  }
+
+  // Book every click that falls inside the lookahead window
+  private schedule(): void {
+    if (!this.context) return;
+    while (this.nextClickTime < this.context.currentTime + SCHEDULE_AHEAD_S) {
+      this.scheduleClick(this.clickIndex, this.nextClickTime);
+      this.clickIndex++;
+      this.nextClickTime += this.clickDuration();
+    }
+  }
+
+  private scheduleClick(index: number, time: number): void {
+    const { accents, subdivision } = this.config;
+    const clicksPerBar = accents.length * subdivision;
+    const bar = Math.floor(index / clicksPerBar);
+    const inBar = index - bar * clicksPerBar;
+    const beat = Math.floor(inBar / subdivision);
+    const sub = inBar % subdivision;
+    const accent = accents[beat] ?? 'weak';
+
+    const sound = sub === 0 ? CLICK_SOUNDS[accent] : SUBDIVISION_CLICK;
+    if (accent !== 'mute' || sub !== 0) {
+      this.playClick(time, sound.frequency, sound.gain);
+      // Keep count-in clicks out of the mic; later clicks land on the beats the student
+      // plays on, so only their attack is kept from being taken for a pluck
+      if (index < 0) audioEngine.reportPlayback(time, time + 0.05);
+      else audioEngine.reportPercussion(time, time + 0.05);
+    }
+
+    const tick: MetronomeTick = { bar, beat, subdivision: sub, accent, countIn: index < 0, time: this.toPerformanceTime(time) };
+    const timeoutId = setTimeout(() => {
+      this.pendingTimeouts.delete(timeoutId);
+      this.listeners.forEach(listener => listener(tick));
+    }, Math.max(0, tick.time - performance.now()));
+    this.pendingTimeouts.add(timeoutId);
+  }
+
+  private playClick(time: number, frequency: number, level: number): void {
+    if (!this.context || !this.destination) return;
+
+    const osc = this.context.createOscillator();
+    const gain = this.context.createGain();
+
+    osc.type = 'square';
+    osc.frequency.value = frequency;
+
+    gain.gain.setValueAtTime(level, time);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + 0.04);
+
+    osc.connect(gain);
+    gain.connect(this.destination);
+
+    osc.start(time);
+    osc.stop(time + 0.05);
+  }
+}
+
+// Export singleton instance
+export const metronome = new Metronome();
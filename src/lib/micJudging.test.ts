@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { MicJudgingOptions, judgeMicNote } from './micJudging';
+import type { DetectedNote } from './micPitchDetector';
+import { Note, midiToNote, noteToTunedMidi, setTuning } from './noteUtils';
+import { BUILT_IN_TUNINGS } from './tuning';
+import { DEFAULT_SETTINGS } from './settings';
+
+const n = (letter: Note['letter'], octave: number, accidental: Note['accidental'] = ''): Note => ({ letter, accidental, octave });
+
+const detection = (midi: number, onsetTs = 1000): DetectedNote => ({
+  note: midiToNote(midi),
+  midi,
+  cents: 0,
+  meanCents: 0,
+  centsSpread: 0,
+  frequency: 440 * Math.pow(2, (midi - 69) / 12),
+  clarity: 0.95,
+  onsetTs,
+  audioTime: onsetTs / 1000,
+});
+
+const options: MicJudgingOptions = { graceMs: 300, ignoreOpenStrings: false, strings: DEFAULT_SETTINGS.strings, grid: '12-tet' };
+
+afterEach(() => setTuning(null));
+
+describe('judgeMicNote', () => {
+  it('accepts the target', () => {
+    expect(judgeMicNote(detection(64), n('E', 4), 0, options)).toEqual({ verdict: 'correct' });
+  });
+
+  it('ignores a mismatch in the grace period, while the last note still rings', () => {
+    expect(judgeMicNote(detection(60, 1200), n('E', 4), 1000, options)).toEqual({ verdict: 'ignore', reason: 'grace' });
+  });
+
+  it('makes a semitone slip hold longer than a clear wrong note', () => {
+    const slip = judgeMicNote(detection(65), n('E', 4), 0, options);
+    const wrong = judgeMicNote(detection(60), n('E', 4), 0, options);
+    expect(slip.verdict).toBe('wrong');
+    expect(wrong.verdict).toBe('wrong');
+    if (slip.verdict === 'wrong' && wrong.verdict === 'wrong') expect(slip.holdMs).toBeGreaterThan(wrong.holdMs);
+  });
+
+  it('can ignore sympathetic open strings', () => {
+    const openString = noteToTunedMidi(DEFAULT_SETTINGS.strings[1].openNote);
+    const judgement = judgeMicNote(detection(openString), n('E', 4), 0, { ...options, ignoreOpenStrings: true });
+    expect(judgement).toEqual({ verdict: 'ignore', reason: 'open-string' });
+  });
+
+  it('needs a quarter-tone grid to hear a half-flat', () => {
+    const target = n('E', 4, 'hb');
+    expect(judgeMicNote(detection(63.5), target, 0, { ...options, grid: '24-tet' }).verdict).toBe('correct');
+    expect(judgeMicNote(detection(64), target, 0, { ...options, grid: '24-tet' }).verdict).toBe('wrong');
+  });
+
+  it('judges a half-flat as tuned by the 53-comma table', () => {
+    setTuning(BUILT_IN_TUNINGS['arabic-53']);
+    const target = n('E', 4, 'hb');
+    const tuned = noteToTunedMidi(target);
+    expect(judgeMicNote(detection(tuned), target, 0, { ...options, grid: '53-comma' }).verdict).toBe('correct');
+  });
+});
@@ -0,0 +1,66 @@
+// Judging policy for notes heard through the mic: when a detection that doesn't match
+// the target counts as a wrong note, and when it is just noise from the instrument
+
+import { Note, PitchGrid, noteToTunedMidi, pitchMatchesNote } from './noteUtils';
+import { DetectedNote, pitchDetector } from './micPitchDetector';
+import type { StringConfig } from './settings';
+
+export interface MicJudgingOptions {
+  graceMs: number; // Mismatches this soon after a target appears are the last note still ringing
+  ignoreOpenStrings: boolean;
+  strings: StringConfig[];
+  grid: PitchGrid;
+}
+
+export type MicJudgement =
+  | { verdict: 'correct' }
+  | { verdict: 'wrong'; holdMs: number } // Counts once the pitch holds this long
+  | { verdict: 'ignore'; reason: 'grace' | 'open-string' };
+
+// A wrong note must keep sounding this long; a semitone slip next to the target,
+// which is often a slide into the note or a glitch at the attack, has to hold longer
+const WRONG_HOLD_MS = 150;
+const NEIGHBOUR_HOLD_MS = 350;
+// Share of the pitched frames in the hold that must stay on the wrong note
+const HOLD_RATIO = 0.6;
+
+export function judgeMicNote(
+  detection: DetectedNote,
+  target: Note,
+  targetShownAt: number,
+  options: MicJudgingOptions
+): MicJudgement {
+  if (pitchMatchesNote(detection.midi, target, options.grid)) return { verdict: 'correct' };
+
+  if (detection.onsetTs - targetShownAt < options.graceMs) return { verdict: 'ignore', reason: 'grace' };
+
+  if (options.ignoreOpenStrings) {
+    const ringing = options.strings.some(s =>
+      pitchMatchesNote(detection.midi, s.openNote, options.grid) ||
+      (!!s.octaveNote && pitchMatchesNote(detection.midi, s.octaveNote, options.grid))
+    );
+    if (ringing) return { verdict: 'ignore', reason: 'open-string' };
+  }
+
+  const isNeighbour = Math.abs(detection.midi - noteToTunedMidi(target)) <= 1.01;
+  return { verdict: 'wrong', holdMs: isNeighbour ? NEIGHBOUR_HOLD_MS : WRONG_HOLD_MS };
+}
+
+// Watch the pitch after a wrong detection and call back if it held; returns a cancel function
+export function confirmWrongNote(detection: DetectedNote, holdMs: number, onConfirmed: () => void): () => void {
+  let total = 0;
+  let held = 0;
+  const unsubscribe = pitchDetector.on('pitch', reading => {
+    total++;
+    if (Math.abs(reading.midi - detection.midi) < 0.5) held++;
+  });
+  const timeoutId = setTimeout(() => {
+    unsubscribe();
+    if (total > 0 && held / total >= HOLD_RATIO) onConfirmed();
+  }, holdMs);
+
+  return () => {
+    clearTimeout(timeoutId);
+    unsubscribe();
+  };
+}
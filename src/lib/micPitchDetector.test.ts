@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DetectedNote, PitchDetector } from './micPitchDetector';
+import type { PitchEstimate } from './pitchAlgorithms';
+
+const FRAME_MS = 10;
+const A3 = 220;
+const C4 = 261.63;
+
+// Feeds frames straight into the debounce, the way the worklet's messages arrive
+class Harness {
+  detector = new PitchDetector();
+  notes: DetectedNote[] = [];
+  now = performance.now() + 1000;
+
+  private internals = this.detector as unknown as {
+    isRecovering: boolean;
+    isTrackAlive(): boolean;
+    processFrame(now: number, audioTime: number, rms: number, estimate: PitchEstimate | null, onset: boolean): boolean;
+  };
+
+  constructor() {
+    // No microphone here: skip the track and silence recovery checks
+    this.internals.isRecovering = true;
+    this.internals.isTrackAlive = () => true;
+    this.detector.on('note', note => this.notes.push(note));
+  }
+
+  // Sound a pitch (or silence when null) for the given time, with an attack on its first frame
+  play(frequency: number | null, ms: number, { rms = 0.1, onset = true } = {}): void {
+    for (let t = 0; t < ms; t += FRAME_MS) {
+      const estimate: PitchEstimate | null = frequency === null ? null : { frequency, clarity: 0.95 };
+      this.internals.processFrame(this.now, this.now / 1000, frequency === null ? 0 : rms, estimate, onset && t === 0);
+      this.now += FRAME_MS;
+    }
+  }
+}
+
+let harness: Harness;
+
+beforeEach(() => {
+  harness = new Harness();
+});
+
+describe('PitchDetector', () => {
+  it('counts every pluck of a repeated note, faster than the debounce', () => {
+    for (let i = 0; i < 8; i++) harness.play(A3, 100);
+    expect(harness.notes).toHaveLength(8);
+    expect(harness.notes.every(note => note.midi === 57)).toBe(true);
+  });
+
+  it('dates a plucked note from its attack', () => {
+    const attack = harness.now;
+    harness.play(A3, 200);
+    expect(harness.notes[0].onsetTs).toBe(attack);
+  });
+
+  it('holds a pitch without an attack for the full stable time', () => {
+    harness.play(A3, 200, { onset: false });
+    expect(harness.notes).toHaveLength(0);
+    harness.play(A3, 100, { onset: false });
+    expect(harness.notes).toHaveLength(1);
+  });
+
+  it('does not take a click over a held note for a pluck', () => {
+    harness.play(A3, 200);
+    harness.detector.suppressPercussion(harness.now, harness.now + 50);
+    harness.play(A3, 200);
+    expect(harness.notes).toHaveLength(1);
+  });
+
+  it('still hears a pluck that lands on a click', () => {
+    harness.play(A3, 200, { rms: 0.05 });
+    harness.detector.suppressPercussion(harness.now, harness.now + 50);
+    harness.play(A3, 200, { rms: 0.2 });
+    expect(harness.notes).toHaveLength(2);
+  });
+
+  it('lets a held note ring through the dumm without a new note', () => {
+    harness.play(A3, 200);
+    harness.detector.suppressPercussion(harness.now, harness.now + 300, 140);
+    harness.play(100, 290);
+    harness.play(A3, 200, { onset: false });
+    expect(harness.notes.map(note => note.midi)).toEqual([57]);
+  });
+
+  it('ignores its own playback entirely', () => {
+    harness.detector.suppress(harness.now, harness.now + 300);
+    harness.play(C4, 300);
+    expect(harness.notes).toHaveLength(0);
+  });
+});
@@ -1,213 +1,570 @@
-import { Note } from './noteUtils';
-import { midiToNote } from './noteUtils';
+import { Note, PitchGrid } from './noteUtils';
+import { midiToNote, quantizeMidi, frequencyToMidi, noteToFrequency } from './noteUtils';
+import { PitchAlgorithm, PitchEstimate, estimatePitch } from './pitchAlgorithms';
+import { OnsetDetector } from './onsetDetection';
+import type { PitchFrame, PitchWorkletConfig } from './pitchWorklet';
+import pitchWorkletUrl from './pitchWorklet.ts?worker&url';
 
-type DetectCallback = (note: Note) => void;
-type StatusCallback = (status: 'listening' | 'recovering' | 'error', rmsLevel: number) => void;
+// A detected note: its quantized pitch on the active grid plus the residual in cents
+export interface DetectedNote {
+  note: Note;
+  midi: number; // Quantized, may be fractional on 24-TET and 53-comma grids
+  cents: number; // Deviation of the played pitch from the note as tuned by the active table
+  meanCents: number; // Average deviation over the frames that confirmed the note
+  centsSpread: number; // Standard deviation of those frames in cents; low is a steady pitch
+  frequency: number;
+  clarity: number; // Periodicity of the frame that confirmed the note, 0-1
+  onsetTs: number; // performance.now() of the pluck's attack, or of the pitch first appearing
+  audioTime: number; // The same onset on the AudioContext clock, in seconds
+}
 
-let audioContext: AudioContext | null = null;
-let analyser: AnalyserNode | null = null;
-let keepAliveGain: GainNode | null = null;
-let mediaStream: MediaStream | null = null;
-let rafId: number | null = null;
-let callbackRef: DetectCallback | null = null;
-let statusCallbackRef: StatusCallback | null = null;
-let lastEmittedMidi: number | null = null;
-let candidateMidi: number | null = null;
-let candidateStartTs: number | null = null;
-let minStableMs = 250;
-let lowRmsSince: number | null = null;
-let rearmMs = 120;
-let rearmRmsThresh = 0.012;
-
-// Auto-recovery tracking
-let lastAudioDetectedAt: number = 0;
-let autoRecoveryTimeoutMs = 5000;
-let isRecovering = false;
-let currentRmsLevel = 0;
-
-function getPitch(buffer: Float32Array, sampleRate: number): number | null {
-  const size = buffer.length;
-  let rms = 0;
-  for (let i = 0; i < size; i++) rms += buffer[i] * buffer[i];
-  rms = Math.sqrt(rms / size);
-  if (rms < 0.01) return null;
-  let start = 0;
-  for (let i = 0; i < size; i++) {
-    if (Math.abs(buffer[i]) > 0.02) {
-      start = i;
-      break;
-    }
-  }
-  const trimmed = buffer.slice(start);
-  const len = trimmed.length;
-  const autocorr = new Float32Array(len);
-  for (let lag = 0; lag < len; lag++) {
-    let sum = 0;
-    for (let i = 0; i < len - lag; i++) sum += trimmed[i] * trimmed[i + lag];
-    autocorr[lag] = sum;
-  }
-  let peakIndex = -1;
-  let peak = 0;
-  for (let i = 1; i < len - 1; i++) {
-    if (autocorr[i] > peak && autocorr[i] > autocorr[i - 1] && autocorr[i] > autocorr[i + 1]) {
-      peak = autocorr[i];
-      peakIndex = i;
-    }
-  }
-  if (peakIndex <= 0) return null;
-  const fundamentalPeriod = peakIndex;
-  const frequency = sampleRate / fundamentalPeriod;
-  if (frequency < 50 || frequency > 2000) return null;
-  return frequency;
+// A pitch that settles within this long of an attack belongs to that attack
+const ONSET_CAPTURE_MS = 150;
+// A note that follows an attack only has to hold its pitch this long and over this many
+// frames, so plucks repeated faster than the debounce each count; without an attack the
+// full minStableMs applies
+const ONSET_CONFIRM_MS = 60;
+const ONSET_CONFIRM_FRAMES = 3;
+// The app's own drum strokes and clicks start with an attack the onset detector can't tell
+// from a pluck; within this long of one, an onset only counts if the level jumps this much
+// over the frame before, as a pluck does and a click echoing through the speaker doesn't
+const PERCUSSION_ATTACK_MS = 80;
+const PLUCK_OVER_PERCUSSION_RMS = 1.5;
+
+// A pitched frame, before any debouncing; what a tuner needle follows
+export interface PitchReading {
+  frequency: number;
+  midi: number; // Exact, unquantized
+  note: Note; // Nearest note on the active grid
+  cents: number; // Deviation from that note
+  clarity: number;
+  time: number; // performance.now() of the frame
+  audioTime: number; // AudioContext clock of the frame, in seconds
 }
 
-function freqToMidi(freq: number): number {
-  return Math.round(69 + 12 * Math.log2(freq / 440));
+export type DetectorStatus = 'listening' | 'recovering' | 'error' | 'off';
+
+export interface PitchDetectorEvents {
+  note: DetectedNote;
+  pitch: PitchReading;
+  level: number; // RMS of every analysed frame
+  onset: { time: number; audioTime: number };
+  status: DetectorStatus;
 }
 
-// Check if MediaStreamTrack is still alive
-function isTrackAlive(): boolean {
-  if (!mediaStream) return false;
-  const tracks = mediaStream.getAudioTracks();
-  if (tracks.length === 0) return false;
-  return tracks[0].readyState === 'live';
+type Listener<T> = (payload: T) => void;
+
+export interface PitchDetectorConfig {
+  grid: PitchGrid;
+  algorithm: PitchAlgorithm;
+  minClarity: number; // Frames less periodic than this are treated as unpitched (noise, pick attack)
+  minStableMs: number;
+  rearmMs: number;
+  rearmRmsThresh: number;
+  autoRecoveryTimeoutMs: number;
 }
 
-// Attempt to restart the microphone
-async function restartMicrophone(): Promise<boolean> {
-  if (!callbackRef) return false;
-  
-  isRecovering = true;
-  statusCallbackRef?.('recovering', currentRmsLevel);
-  
-  try {
-    // Stop existing stream
-    if (mediaStream) {
-      mediaStream.getTracks().forEach(t => t.stop());
+// The legacy autocorrelation is O(n²), too slow for the audio thread's render budget, so it
+// always runs on the polled AnalyserNode
+function runsOnMainThread(algorithm: PitchAlgorithm): boolean {
+  return algorithm === 'autocorrelation';
+}
+
+// The legacy autocorrelation's clarity is only a rough peak ratio, so it isn't gated
+function defaultMinClarity(algorithm: PitchAlgorithm): number {
+  return algorithm === 'autocorrelation' ? 0 : 0.8;
+}
+
+const DEFAULT_CONFIG: PitchDetectorConfig = {
+  grid: '12-tet',
+  algorithm: 'yin',
+  minClarity: 0.8,
+  minStableMs: 250,
+  rearmMs: 120,
+  rearmRmsThresh: 0.012,
+  autoRecoveryTimeoutMs: 5000,
+};
+
+export class PitchDetector {
+  private config: PitchDetectorConfig = { ...DEFAULT_CONFIG };
+  private listeners: { [K in keyof PitchDetectorEvents]: Set<Listener<PitchDetectorEvents[K]>> } = {
+    note: new Set(),
+    pitch: new Set(),
+    level: new Set(),
+    onset: new Set(),
+    status: new Set(),
+  };
+
+  private audioContext: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private workletNode: AudioWorkletNode | null = null;
+  private workletContext: AudioContext | null = null; // Context the processor module is loaded into
+  private watchdogId: ReturnType<typeof setInterval> | null = null;
+  private keepAliveGain: GainNode | null = null;
+  private mediaStream: MediaStream | null = null;
+  private rafId: number | null = null;
+  private status: DetectorStatus = 'off';
+  private holders = new Set<string>(); // Callers that turned the mic on and haven't let go
+
+  private lastEmittedMidi: number | null = null;
+  private candidateMidi: number | null = null;
+  private candidateStartTs: number | null = null;
+  private candidateStartAudioTime = 0;
+  private candidateFromAttack = false;
+  private candidateCents: number[] = [];
+  private lowRmsSince: number | null = null;
+  private onsets = new OnsetDetector(); // Only used when polling the AnalyserNode
+  private lastOnset: { time: number; audioTime: number } | null = null;
+  private suppressed: { start: number; end: number }[] = []; // The app's own playback
+  private percussion: { start: number; end: number; belowHz: number }[] = []; // The app's drum and clicks
+  private previousRms = 0;
+
+  // Auto-recovery tracking
+  private lastAudioDetectedAt = 0;
+  private isRecovering = false;
+  private currentRmsLevel = 0;
+
+  // Subscribe to an event; returns the unsubscribe function
+  on<K extends keyof PitchDetectorEvents>(event: K, listener: Listener<PitchDetectorEvents[K]>): () => void {
+    this.listeners[event].add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof PitchDetectorEvents>(event: K, listener: Listener<PitchDetectorEvents[K]>): void {
+    this.listeners[event].delete(listener);
+  }
+
+  // Turn the mic on for a caller, or share it if it is already on; the config only applies
+  // when this call starts it
+  async acquire(holder: string, config?: Partial<PitchDetectorConfig>): Promise<void> {
+    this.holders.add(holder);
+    if (this.isListening()) return;
+    try {
+      await this.start(config);
+    } catch (err) {
+      this.holders.delete(holder);
+      throw err;
     }
-    if (analyser) {
-      analyser.disconnect();
+    // Let go of while the mic was still starting
+    if (this.holders.size === 0) this.stop();
+  }
+
+  // The mic stops once every caller that turned it on has let go, whoever still listens to its events
+  release(holder: string): void {
+    if (!this.holders.delete(holder)) return;
+    if (this.holders.size === 0) this.stop();
+  }
+
+  // Takes effect on the next frame, whether or not the mic is running
+  configure(config: Partial<PitchDetectorConfig>): void {
+    const previous = this.config;
+    this.config = { ...previous, ...config };
+    if (config.algorithm !== undefined && config.minClarity === undefined) {
+      this.config.minClarity = defaultMinClarity(config.algorithm);
     }
-    if (keepAliveGain) {
-      keepAliveGain.disconnect();
+    if (this.config.algorithm !== previous.algorithm) {
+      if (this.isListening() && runsOnMainThread(this.config.algorithm) !== runsOnMainThread(previous.algorithm)) {
+        void this.reconnectAnalysis();
+      } else {
+        const workletConfig: PitchWorkletConfig = { algorithm: this.config.algorithm };
+        this.workletNode?.port.postMessage(workletConfig);
+      }
+      this.resetCandidate();
     }
+    if (this.config.grid !== previous.grid) {
+      this.lastEmittedMidi = null;
+      this.resetCandidate();
+    }
+  }
+
+  getConfig(): PitchDetectorConfig {
+    return this.config;
+  }
+
+  getStatus(): DetectorStatus {
+    return this.status;
+  }
+
+  isListening(): boolean {
+    return this.status !== 'off';
+  }
+
+  // RMS of the latest frame, for external monitoring
+  getLevel(): number {
+    return this.currentRmsLevel;
+  }
+
+  // Ignore frames between these performance.now() times, while the app itself is sounding
+  suppress(start: number, end: number): void {
+    const now = performance.now();
+    this.suppressed = this.suppressed.filter(w => w.end > now);
+    this.suppressed.push({ start, end });
+  }
+
+  // A stroke or click from the app: its attack isn't taken for a pluck, and until `end` any
+  // pitch at or below `belowHz` (a pitched drum's body) is ignored; the student stays audible
+  suppressPercussion(start: number, end: number, belowHz = 0): void {
+    const now = performance.now();
+    this.percussion = this.percussion.filter(w => w.end > now);
+    this.percussion.push({ start, end, belowHz });
+  }
+  
+  async start(config?: Partial<PitchDetectorConfig>): Promise<void> {
+    if (config) this.configure(config);
     
-    // Get new stream
-    mediaStream = await navigator.mediaDevices.getUserMedia({ 
+    if (!this.audioContext) this.audioContext = new AudioContext();
+    this.mediaStream?.getTracks().forEach(t => t.stop());
+    this.mediaStream = await navigator.mediaDevices.getUserMedia({ 
       audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true } 
     });
-    
-    if (!audioContext) {
-      audioContext = new AudioContext();
+    await this.connectGraph();
+
+    if (this.audioContext.state === 'suspended') await this.audioContext.resume();
+    this.lastEmittedMidi = null;
+    this.resetCandidate();
+    this.lowRmsSince = null;
+    this.lastOnset = null;
+    this.onsets.reset();
+    this.lastAudioDetectedAt = performance.now();
+    this.isRecovering = false;
+    this.setStatus('listening');
+    if (this.analyser) this.rafId = requestAnimationFrame(this.tick);
+    if (this.watchdogId) clearInterval(this.watchdogId);
+    this.watchdogId = setInterval(this.watchdog, 1000);
+  }
+
+  stop(): void {
+    this.disconnectAnalysis();
+    if (this.watchdogId) {
+      clearInterval(this.watchdogId);
+      this.watchdogId = null;
     }
-    
-    const src = audioContext.createMediaStreamSource(mediaStream);
-    analyser = audioContext.createAnalyser();
-    analyser.fftSize = 2048;
-    src.connect(analyser);
-    
-    // Keep the graph alive
-    keepAliveGain = audioContext.createGain();
-    keepAliveGain.gain.value = 0;
-    analyser.connect(keepAliveGain);
-    keepAliveGain.connect(audioContext.destination);
-    
-    // Add track ended listener
-    const track = mediaStream.getAudioTracks()[0];
+    if (this.mediaStream) {
+      this.mediaStream.getTracks().forEach(t => t.stop());
+      this.mediaStream = null;
+    }
+    if (this.keepAliveGain) {
+      this.keepAliveGain.disconnect();
+      this.keepAliveGain = null;
+    }
+    this.lastEmittedMidi = null;
+    this.resetCandidate();
+    this.lowRmsSince = null;
+    this.isRecovering = false;
+    this.currentRmsLevel = 0;
+    this.setStatus('off');
+  }
+
+  private emit<K extends keyof PitchDetectorEvents>(event: K, payload: PitchDetectorEvents[K]): void {
+    this.listeners[event].forEach(listener => listener(payload));
+  }
+
+  private setStatus(status: DetectorStatus): void {
+    if (status === this.status) return;
+    this.status = status;
+    this.emit('status', status);
+  }
+
+  private resetCandidate(): void {
+    this.candidateMidi = null;
+    this.candidateStartTs = null;
+    this.candidateFromAttack = false;
+    this.candidateCents = [];
+  }
+
+  // Check if MediaStreamTrack is still alive
+  private isTrackAlive(): boolean {
+    if (!this.mediaStream) return false;
+    const tracks = this.mediaStream.getAudioTracks();
+    if (tracks.length === 0) return false;
+    return tracks[0].readyState === 'live';
+  }
+
+  // Mic → analysis node → silent gain → destination; the silent route keeps the graph alive on mobile
+  private async connectGraph(): Promise<void> {
+    if (!this.audioContext || !this.mediaStream) return;
+    this.disconnectAnalysis();
+    const src = this.audioContext.createMediaStreamSource(this.mediaStream);
+    const analysisNode = await this.connectAnalysis(src);
+
+    if (this.keepAliveGain) {
+      try {
+        this.keepAliveGain.disconnect();
+      } catch {
+        // ignore
+      }
+    }
+    this.keepAliveGain = this.audioContext.createGain();
+    this.keepAliveGain.gain.value = 0;
+    analysisNode.connect(this.keepAliveGain);
+    this.keepAliveGain.connect(this.audioContext.destination);
+
+    // Add track ended listener for immediate detection
+    const track = this.mediaStream.getAudioTracks()[0];
     track.onended = () => {
       console.warn('[MicPitchDetector] Track ended, will attempt recovery');
-      restartMicrophone();
+      this.restartMicrophone();
     };
+  }
+
+  // Attempt to restart the microphone
+  private async restartMicrophone(): Promise<boolean> {
+    if (!this.isListening()) return false;
     
-    if (audioContext.state === 'suspended') {
-      await audioContext.resume();
-    }
+    this.isRecovering = true;
+    this.setStatus('recovering');
     
-    lastAudioDetectedAt = performance.now();
-    isRecovering = false;
-    statusCallbackRef?.('listening', currentRmsLevel);
-    console.log('[MicPitchDetector] Microphone restarted successfully');
-    return true;
-  } catch (err) {
-    console.error('[MicPitchDetector] Failed to restart microphone:', err);
-    isRecovering = false;
-    statusCallbackRef?.('error', 0);
-    return false;
+    try {
+      // Stop existing stream
+      if (this.mediaStream) {
+        this.mediaStream.getTracks().forEach(t => t.stop());
+      }
+      
+      // Get new stream
+      this.mediaStream = await navigator.mediaDevices.getUserMedia({ 
+        audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true } 
+      });
+      
+      if (!this.audioContext) {
+        this.audioContext = new AudioContext();
+      }
+      await this.connectGraph();
+      
+      if (this.audioContext.state === 'suspended') {
+        await this.audioContext.resume();
+      }
+      
+      this.lastAudioDetectedAt = performance.now();
+      this.isRecovering = false;
+      this.setStatus('listening');
+      if (this.analyser) this.rafId = requestAnimationFrame(this.tick);
+      console.log('[MicPitchDetector] Microphone restarted successfully');
+      return true;
+    } catch (err) {
+      console.error('[MicPitchDetector] Failed to restart microphone:', err);
+      this.isRecovering = false;
+      this.setStatus('error');
+      return false;
+    }
   }
-}
 
-function tick() {
-  if (!analyser || !audioContext || !callbackRef) return;
+  // Route the mic into the pitch worklet, or into an AnalyserNode polled by
+  // requestAnimationFrame where AudioWorklet isn't available
+  private async connectAnalysis(src: MediaStreamAudioSourceNode): Promise<AudioNode> {
+    const context = this.audioContext;
+    if (!context) throw new Error('No AudioContext');
+    
+    if (context.audioWorklet && !runsOnMainThread(this.config.algorithm)) {
+      try {
+        if (this.workletContext !== context) {
+          await context.audioWorklet.addModule(pitchWorkletUrl);
+          this.workletContext = context;
+        }
+        const node = new AudioWorkletNode(context, 'pitch-processor');
+        node.port.onmessage = (event: MessageEvent<PitchFrame>) => this.handleWorkletFrame(event.data);
+        const workletConfig: PitchWorkletConfig = { algorithm: this.config.algorithm };
+        node.port.postMessage(workletConfig);
+        src.connect(node);
+        this.workletNode = node;
+        return node;
+      } catch (err) {
+        console.warn('[MicPitchDetector] AudioWorklet unavailable, polling an AnalyserNode instead:', err);
+        this.workletNode = null;
+      }
+    }
+    
+    this.analyser = context.createAnalyser();
+    this.analyser.fftSize = 2048;
+    src.connect(this.analyser);
+    return this.analyser;
+  }
 
-  // On mobile, the AudioContext can get suspended unexpectedly
-  if (audioContext.state === 'suspended') {
-    void audioContext.resume().catch(() => {});
+  // Move the analysis between the worklet and the AnalyserNode without dropping the mic
+  private async reconnectAnalysis(): Promise<void> {
+    try {
+      await this.connectGraph();
+      if (this.analyser) this.rafId = requestAnimationFrame(this.tick);
+    } catch (err) {
+      console.error('[MicPitchDetector] Failed to switch pitch analysis:', err);
+      this.setStatus('error');
+    }
   }
 
-  const bufferLength = 2048;
-  const timeData = new Float32Array(bufferLength);
-  analyser.getFloatTimeDomainData(timeData);
-  const now = performance.now();
-  
-  let rms = 0;
-  for (let i = 0; i < bufferLength; i++) rms += timeData[i] * timeData[i];
-  rms = Math.sqrt(rms / bufferLength);
-  currentRmsLevel = rms;
-  
-  // Check if track is still alive
-  if (!isTrackAlive() && !isRecovering) {
-    console.warn('[MicPitchDetector] Track died, attempting recovery');
-    restartMicrophone().then(() => {
-      rafId = requestAnimationFrame(tick);
-    });
-    return;
+  private disconnectAnalysis(): void {
+    if (this.rafId) {
+      cancelAnimationFrame(this.rafId);
+      this.rafId = null;
+    }
+    if (this.workletNode) {
+      this.workletNode.port.onmessage = null;
+      this.workletNode.disconnect();
+      this.workletNode = null;
+    }
+    if (this.analyser) {
+      this.analyser.disconnect();
+      this.analyser = null;
+    }
   }
-  
-  // Auto-recovery: if no audio above threshold for too long, restart
-  if (rms > 0.01) {
-    lastAudioDetectedAt = now;
-  } else if (!isRecovering && now - lastAudioDetectedAt > autoRecoveryTimeoutMs) {
-    console.warn('[MicPitchDetector] No audio detected for 5s, attempting recovery');
-    restartMicrophone().then(() => {
-      rafId = requestAnimationFrame(tick);
-    });
-    return;
+
+  // Worklet frames carry audio-clock timestamps; map them onto performance.now() so
+  // debouncing follows when the sound happened, not when the main thread got to it
+  private handleWorkletFrame(frame: PitchFrame): void {
+    if (!this.audioContext || !this.isListening()) return;
+    const now = performance.now() - (this.audioContext.currentTime - frame.time) * 1000;
+    const estimate = frame.frequency !== null ? { frequency: frame.frequency, clarity: frame.clarity } : null;
+    this.processFrame(now, frame.time, frame.rms, estimate, frame.onset);
   }
-  
-  // Report status
-  statusCallbackRef?.(isRecovering ? 'recovering' : 'listening', rms);
-  
-  if (rms < rearmRmsThresh) {
-    if (lowRmsSince == null) {
-      lowRmsSince = now;
-    } else if (now - lowRmsSince >= rearmMs) {
-      lastEmittedMidi = null;
-      candidateMidi = null;
-      candidateStartTs = null;
+
+  // The worklet only runs while the context does; nudge it back if the OS suspends it
+  private watchdog = (): void => {
+    if (this.audioContext?.state === 'suspended') {
+      void this.audioContext.resume().catch(() => {});
     }
-  } else {
-    lowRmsSince = null;
-  }
-  
-  const freq = getPitch(timeData, audioContext.sampleRate);
-  if (freq) {
-    const midi = freqToMidi(freq);
-    if (candidateMidi === null || midi !== candidateMidi) {
-      candidateMidi = midi;
-      candidateStartTs = now;
-    } else if (candidateStartTs !== null && now - candidateStartTs >= minStableMs) {
-      if (lastEmittedMidi !== midi) {
-        lastEmittedMidi = midi;
-        callbackRef(midiToNote(midi));
+  };
+
+  private tick = (): void => {
+    const { analyser, audioContext } = this;
+    if (!analyser || !audioContext || !this.isListening()) return;
+
+    // On mobile, the AudioContext can get suspended unexpectedly
+    if (audioContext.state === 'suspended') {
+      void audioContext.resume().catch(() => {});
+    }
+
+    const bufferLength = 2048;
+    const timeData = new Float32Array(bufferLength);
+    analyser.getFloatTimeDomainData(timeData);
+    
+    let rms = 0;
+    for (let i = 0; i < bufferLength; i++) rms += timeData[i] * timeData[i];
+    rms = Math.sqrt(rms / bufferLength);
+    
+    const estimate = estimatePitch(this.config.algorithm, timeData, audioContext.sampleRate);
+    const onset = this.onsets.process(timeData, audioContext.currentTime);
+    if (this.processFrame(performance.now(), audioContext.currentTime, rms, estimate, onset)) {
+      this.rafId = requestAnimationFrame(this.tick);
+    }
+  };
+
+  // Recovery, onsets, rearm and debounce for one analysis frame; false when recovery took over
+  private processFrame(
+    now: number,
+    audioTime: number,
+    rms: number,
+    estimate: PitchEstimate | null,
+    onset: boolean
+  ): boolean {
+    const { grid, minClarity, minStableMs, rearmMs, rearmRmsThresh, autoRecoveryTimeoutMs } = this.config;
+    this.currentRmsLevel = rms;
+    
+    // Check if track is still alive
+    if (!this.isTrackAlive() && !this.isRecovering) {
+      console.warn('[MicPitchDetector] Track died, attempting recovery');
+      this.restartMicrophone();
+      return false;
+    }
+    
+    // Auto-recovery: if no audio above threshold for too long, restart
+    if (rms > 0.01) {
+      this.lastAudioDetectedAt = now;
+    } else if (!this.isRecovering && now - this.lastAudioDetectedAt > autoRecoveryTimeoutMs) {
+      console.warn('[MicPitchDetector] No audio detected for 5s, attempting recovery');
+      this.restartMicrophone();
+      return false;
+    }
+    
+    this.emit('level', rms);
+    const previousRms = this.previousRms;
+    this.previousRms = rms;
+    
+    // Our own playback coming back through the mic is neither a pluck nor a note
+    if (this.suppressed.some(w => now >= w.start && now <= w.end)) {
+      this.resetCandidate();
+      return true;
+    }
+    const percussion = this.percussion.filter(w => now >= w.start && now <= w.end);
+    const percussionAttack = percussion.some(w => now <= w.start + PERCUSSION_ATTACK_MS);
+    
+    // Every attack is a new note, even when the pitch doesn't change
+    if (onset && rms >= rearmRmsThresh && (!percussionAttack || rms >= previousRms * PLUCK_OVER_PERCUSSION_RMS)) {
+      this.lastOnset = { time: now, audioTime };
+      this.lastEmittedMidi = null;
+      this.resetCandidate();
+      this.emit('onset', this.lastOnset);
+    }
+    
+    if (rms < rearmRmsThresh) {
+      if (this.lowRmsSince == null) {
+        this.lowRmsSince = now;
+      } else if (now - this.lowRmsSince >= rearmMs) {
+        this.lastEmittedMidi = null;
+        this.resetCandidate();
+      }
+    } else {
+      this.lowRmsSince = null;
+    }
+    
+    // The app's drum sounding under the student's note neither holds nor breaks it
+    if (estimate && percussion.some(w => estimate.frequency <= w.belowHz)) return true;
+    
+    if (estimate && estimate.clarity >= minClarity) {
+      const freq = estimate.frequency;
+      const exactMidi = frequencyToMidi(freq);
+      const midi = quantizeMidi(exactMidi, grid);
+      const note = midiToNote(midi);
+      const cents = 1200 * Math.log2(freq / noteToFrequency(note));
+      this.emit('pitch', { frequency: freq, midi: exactMidi, note, cents, clarity: estimate.clarity, time: now, audioTime });
+      
+      if (this.candidateMidi === null || midi !== this.candidateMidi) {
+        // Date the note from its attack when it has just been plucked
+        const attack = this.lastOnset && now - this.lastOnset.time <= ONSET_CAPTURE_MS ? this.lastOnset : null;
+        this.candidateMidi = midi;
+        this.candidateStartTs = attack?.time ?? now;
+        this.candidateStartAudioTime = attack?.audioTime ?? audioTime;
+        this.candidateFromAttack = attack !== null;
+        this.candidateCents = [cents];
+      } else if (this.candidateStartTs !== null) {
+        this.candidateCents.push(cents);
+        const held = now - this.candidateStartTs;
+        const confirmed = this.candidateFromAttack
+          ? held >= Math.min(minStableMs, ONSET_CONFIRM_MS) && this.candidateCents.length >= ONSET_CONFIRM_FRAMES
+          : held >= minStableMs;
+        if (confirmed && this.lastEmittedMidi !== midi) {
+          this.lastEmittedMidi = midi;
+          const samples = this.candidateCents;
+          const meanCents = samples.reduce((sum, c) => sum + c, 0) / samples.length;
+          const centsSpread = Math.sqrt(samples.reduce((sum, c) => sum + (c - meanCents) ** 2, 0) / samples.length);
+          this.emit('note', {
+            note,
+            midi,
+            cents,
+            meanCents,
+            centsSpread,
+            frequency: freq,
+            clarity: estimate.clarity,
+            onsetTs: this.candidateStartTs,
+            audioTime: this.candidateStartAudioTime,
+          });
+        }
       }
+    } else {
+      this.resetCandidate();
     }
-  } else {
-    candidateMidi = null;
-    candidateStartTs = null;
+    return true;
   }
-  rafId = requestAnimationFrame(tick);
 }
 
+// Export singleton instance
+export const pitchDetector = new PitchDetector();
+
+// Callback-style wrappers around the shared detector
+
+type DetectCallback = (detection: DetectedNote) => void;
+type StatusCallback = (status: 'listening' | 'recovering' | 'error', rmsLevel: number) => void;
+
+let wrapperUnsubscribers: Array<() => void> = [];
+const WRAPPER_HOLDER = 'practice';
+
 export async function startListening(
   cb: DetectCallback, 
   opts?: { 
@@ -216,83 +573,55 @@ export async function startListening(
     rearmRmsThresh?: number;
     onStatus?: StatusCallback;
     autoRecoveryTimeoutMs?: number;
+    grid?: PitchGrid;
+    algorithm?: PitchAlgorithm;
+    minClarity?: number;
   }
 ): Promise<void> {
-  callbackRef = cb;
-  statusCallbackRef = opts?.onStatus || null;
-  autoRecoveryTimeoutMs = opts?.autoRecoveryTimeoutMs ?? 5000;
-  
-  if (!audioContext) audioContext = new AudioContext();
-  mediaStream = await navigator.mediaDevices.getUserMedia({ 
-    audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true } 
-  });
-  const src = audioContext.createMediaStreamSource(mediaStream);
-  analyser = audioContext.createAnalyser();
-  analyser.fftSize = 2048;
-  src.connect(analyser);
-
-  // Keep the graph alive on mobile by routing to destination through a silent gain.
-  if (keepAliveGain) {
-    try {
-      keepAliveGain.disconnect();
-    } catch {
-      // ignore
-    }
+  wrapperUnsubscribers.forEach(unsubscribe => unsubscribe());
+  wrapperUnsubscribers = [pitchDetector.on('note', cb)];
+  const onStatus = opts?.onStatus;
+  if (onStatus) {
+    // The old callback reported status alongside the level of every frame
+    const report = () => {
+      const status = pitchDetector.getStatus();
+      if (status !== 'off') onStatus(status, pitchDetector.getLevel());
+    };
+    wrapperUnsubscribers.push(pitchDetector.on('level', report), pitchDetector.on('status', report));
   }
-  keepAliveGain = audioContext.createGain();
-  keepAliveGain.gain.value = 0;
-  analyser.connect(keepAliveGain);
-  keepAliveGain.connect(audioContext.destination);
-
-  // Add track ended listener for immediate detection
-  const track = mediaStream.getAudioTracks()[0];
-  track.onended = () => {
-    console.warn('[MicPitchDetector] Track ended, will attempt recovery');
-    restartMicrophone();
-  };
 
-  if (audioContext.state === 'suspended') await audioContext.resume();
-  lastEmittedMidi = null;
-  candidateMidi = null;
-  candidateStartTs = null;
-  minStableMs = opts?.minStableMs ?? 250;
-  rearmMs = opts?.rearmMs ?? 120;
-  rearmRmsThresh = opts?.rearmRmsThresh ?? 0.012;
-  lowRmsSince = null;
-  lastAudioDetectedAt = performance.now();
-  isRecovering = false;
-  if (rafId) cancelAnimationFrame(rafId);
-  rafId = requestAnimationFrame(tick);
+  const algorithm = opts?.algorithm ?? DEFAULT_CONFIG.algorithm;
+  pitchDetector.configure({
+    grid: opts?.grid ?? DEFAULT_CONFIG.grid,
+    algorithm,
+    minClarity: opts?.minClarity ?? defaultMinClarity(algorithm),
+    minStableMs: opts?.minStableMs ?? DEFAULT_CONFIG.minStableMs,
+    rearmMs: opts?.rearmMs ?? DEFAULT_CONFIG.rearmMs,
+    rearmRmsThresh: opts?.rearmRmsThresh ?? DEFAULT_CONFIG.rearmRmsThresh,
+    autoRecoveryTimeoutMs: opts?.autoRecoveryTimeoutMs ?? DEFAULT_CONFIG.autoRecoveryTimeoutMs,
+  });
+  await pitchDetector.acquire(WRAPPER_HOLDER);
 }
 
+// Drop the wrapper's callbacks and its hold on the mic, which stops unless the tuning
+// detector turned it on too; views that only read its events don't keep it running
 export function stopListening(): void {
-  if (rafId) {
-    cancelAnimationFrame(rafId);
-    rafId = null;
-  }
-  if (mediaStream) {
-    mediaStream.getTracks().forEach(t => t.stop());
-    mediaStream = null;
-  }
-  if (analyser) {
-    analyser.disconnect();
-    analyser = null;
-  }
-  if (keepAliveGain) {
-    keepAliveGain.disconnect();
-    keepAliveGain = null;
-  }
-  callbackRef = null;
-  statusCallbackRef = null;
-  lastEmittedMidi = null;
-  candidateMidi = null;
-  candidateStartTs = null;
-  lowRmsSince = null;
-  isRecovering = false;
-  currentRmsLevel = 0;
+  wrapperUnsubscribers.forEach(unsubscribe => unsubscribe());
+  wrapperUnsubscribers = [];
+  pitchDetector.release(WRAPPER_HOLDER);
 }
 
 // Export current RMS level for external monitoring
 export function getCurrentRmsLevel(): number {
-  return currentRmsLevel;
+  return pitchDetector.getLevel();
+}
+
+// Change the quantization grid without restarting the microphone
+export function setPitchGrid(grid: PitchGrid): void {
+  pitchDetector.configure({ grid });
+}
+
+// Switch estimators while listening
+export function setPitchAlgorithm(algorithm: PitchAlgorithm): void {
+  pitchDetector.configure({ algorithm });
 }
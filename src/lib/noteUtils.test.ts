@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  Note,
+  getCandidateNotes,
+  midiToNote,
+  noteToFrequency,
+  noteToMidi,
+  noteToTunedMidi,
+  pitchMatchesNote,
+  quantizeMidi,
+  setReferencePitch,
+  setTuning,
+} from './noteUtils';
+import { getKeySignature } from './keySignatures';
+import { BUILT_IN_TUNINGS } from './tuning';
+
+const n = (letter: Note['letter'], octave: number, accidental: Note['accidental'] = ''): Note => ({ letter, accidental, octave });
+const spelling = (note: Note) => `${note.letter}${note.accidental}${note.octave}`;
+
+afterEach(() => {
+  setTuning(null);
+  setReferencePitch(440);
+});
+
+describe('midiToNote', () => {
+  it('spells semitones with sharps by default', () => {
+    expect(spelling(midiToNote(61))).toBe('C#4');
+    expect(spelling(midiToNote(70))).toBe('A#4');
+  });
+
+  it('spells to fit a key signature', () => {
+    expect(spelling(midiToNote(70, getKeySignature('bb-major')))).toBe('Bb4');
+    expect(spelling(midiToNote(66, getKeySignature('d-major')))).toBe('F#4');
+  });
+
+  it('spells quarter tones the way maqam notation writes them', () => {
+    expect(spelling(midiToNote(63.5))).toBe('Ehb4');
+    expect(spelling(midiToNote(70.5, getKeySignature('rast')))).toBe('Bhb4');
+    // A flat key would pick G half-flat, which no maqam uses
+    expect(spelling(midiToNote(65.5, getKeySignature('bb-major')))).toBe('Fh#4');
+  });
+
+  it('round-trips through noteToMidi', () => {
+    for (let midi = 48; midi <= 72; midi += 0.5) expect(noteToMidi(midiToNote(midi))).toBe(midi);
+  });
+});
+
+describe('getCandidateNotes', () => {
+  const range = [n('C', 4), n('C', 5)] as const;
+
+  it('keeps quarter tones out unless asked for', () => {
+    const notes = getCandidateNotes(...range, true, false);
+    expect(notes.map(spelling)).not.toContain('Ehb4');
+    expect(notes).toHaveLength(13);
+  });
+
+  it('only drills quarter tones a maqam can have', () => {
+    for (const key of [undefined, getKeySignature('bb-major'), getKeySignature('rast')]) {
+      const names = getCandidateNotes(...range, true, true, key).map(note => note.letter + note.accidental);
+      expect(names).toEqual(expect.arrayContaining(['Ehb', 'Bhb', 'Ahb', 'Fh#']));
+      expect(names).not.toContain('Fhb');
+      expect(names).not.toContain('Ghb');
+      expect(names).not.toContain('Bh#');
+    }
+  });
+
+  it('keeps the key signature quarter tones without other accidentals', () => {
+    const names = getCandidateNotes(...range, false, false, getKeySignature('rast')).map(note => note.letter + note.accidental);
+    expect(names).toEqual(['C', 'D', 'Ehb', 'F', 'G', 'A', 'Bhb', 'C']);
+  });
+});
+
+describe('tuning tables', () => {
+  it('follows the reference pitch', () => {
+    setReferencePitch(442);
+    expect(noteToFrequency(n('A', 4))).toBeCloseTo(442);
+    expect(noteToFrequency(n('A', 3))).toBeCloseTo(221);
+  });
+
+  it('places the 53-comma half-flat two commas under the natural', () => {
+    setTuning(BUILT_IN_TUNINGS['arabic-53']);
+    const comma = 12 / 53;
+    expect(noteToTunedMidi(n('E', 4)) - noteToTunedMidi(n('E', 4, 'hb'))).toBeCloseTo(2 * comma);
+    // Anchored on A4, so A stays at the reference
+    expect(noteToFrequency(n('A', 4))).toBeCloseTo(440);
+  });
+
+  it('tunes enharmonic spellings apart on the 53-comma table', () => {
+    setTuning(BUILT_IN_TUNINGS['arabic-53']);
+    expect(noteToTunedMidi(n('E', 4, 'hb'))).not.toBeCloseTo(noteToTunedMidi(n('D', 4, 'h#')));
+  });
+});
+
+describe('pitch grids', () => {
+  it('snaps to the grid step', () => {
+    expect(quantizeMidi(63.3, '12-tet')).toBe(63);
+    expect(quantizeMidi(63.3, '24-tet')).toBe(63.5);
+    expect(quantizeMidi(12 / 53 * 2.4, '53-comma')).toBeCloseTo(12 / 53 * 2);
+  });
+
+  it('only tells a half-flat from its neighbours on a quarter-tone grid', () => {
+    const halfFlat = n('E', 4, 'hb');
+    expect(pitchMatchesNote(63.5, halfFlat, '24-tet')).toBe(true);
+    expect(pitchMatchesNote(63, halfFlat, '24-tet')).toBe(false);
+    expect(pitchMatchesNote(64, halfFlat, '24-tet')).toBe(false);
+  });
+
+  it('judges against the active tuning table', () => {
+    setTuning(BUILT_IN_TUNINGS['arabic-53']);
+    const halfFlat = n('E', 4, 'hb');
+    expect(pitchMatchesNote(noteToTunedMidi(halfFlat), halfFlat, '53-comma')).toBe(true);
+    expect(pitchMatchesNote(noteToTunedMidi(n('E', 4)), halfFlat, '53-comma')).toBe(false);
+  });
+});
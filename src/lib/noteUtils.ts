@@ -1,8 +1,17 @@
 // Note representation and utilities for the Oud Note Trainer
 
+import type { TuningTable } from './tuning';
+import type { KeySignature } from './keySignatures';
+import type { Clef } from './clefs';
+import { ARABIC_NOTE_NAMES, ARABIC_NAME_ALIASES, ArabicNoteName, QARAR_PREFIX, JAWAB_PREFIX } from './arabicNoteNames';
+
 export type NoteLetter = 'C' | 'D' | 'E' | 'F' | 'G' | 'A' | 'B';
-export type Accidental = '' | '#' | 'b';
-export type NotationSystem = 'letters' | 'solfege';
+// 'hb' and 'h#' are the half-flat and half-sharp (quarter-tone) accidentals used by the maqamat
+export type Accidental = '' | '#' | 'b' | 'hb' | 'h#';
+// 'arabic' names pitches by register (Rast, Dugah, Sikah...) rather than letter + octave
+export type NotationSystem = 'letters' | 'solfege' | 'arabic';
+// Pitch grids the mic detector can snap to: semitones, quarter tones or 53 commas per octave
+export type PitchGrid = '12-tet' | '24-tet' | '53-comma';
 
 export interface Note {
   letter: NoteLetter;
@@ -34,66 +43,316 @@ const SEMITONES_FROM_C: Record<NoteLetter, number> = {
   B: 11,
 };
 
+// Pitch offset of each accidental in semitones (quarter tones are half a semitone)
+const ACCIDENTAL_OFFSETS: Record<Accidental, number> = {
+  '': 0,
+  '#': 1,
+  'b': -1,
+  'h#': 0.5,
+  'hb': -0.5,
+};
+
+// Display symbols for each accidental
+const ACCIDENTAL_SYMBOLS: Record<Accidental, string> = {
+  '': '',
+  '#': '♯',
+  'b': '♭',
+  'h#': '𝄲',
+  'hb': '𝄳',
+};
+
 // Convert note to MIDI number (C4 = 60)
+// Quarter-tone notes give fractional values (e.g. E half-flat 4 = 63.5)
 export function noteToMidi(note: Note): number {
   const baseSemitones = SEMITONES_FROM_C[note.letter];
-  const accidentalOffset = note.accidental === '#' ? 1 : note.accidental === 'b' ? -1 : 0;
+  const accidentalOffset = getAccidentalOffset(note.accidental);
   return (note.octave + 1) * 12 + baseSemitones + accidentalOffset;
 }
 
-// Convert MIDI number to note (prefer sharps)
-export function midiToNote(midi: number): Note {
-  const octave = Math.floor(midi / 12) - 1;
-  const semitone = midi % 12;
-  
-  // Map semitones to natural notes with sharps
-  const semitonesMap: { letter: NoteLetter; accidental: Accidental }[] = [
-    { letter: 'C', accidental: '' },
-    { letter: 'C', accidental: '#' },
-    { letter: 'D', accidental: '' },
-    { letter: 'D', accidental: '#' },
-    { letter: 'E', accidental: '' },
-    { letter: 'F', accidental: '' },
-    { letter: 'F', accidental: '#' },
-    { letter: 'G', accidental: '' },
-    { letter: 'G', accidental: '#' },
-    { letter: 'A', accidental: '' },
-    { letter: 'A', accidental: '#' },
-    { letter: 'B', accidental: '' },
-  ];
+// Spelling for each semitone (prefer sharps)
+const SEMITONE_SPELLINGS: { letter: NoteLetter; accidental: Accidental }[] = [
+  { letter: 'C', accidental: '' },
+  { letter: 'C', accidental: '#' },
+  { letter: 'D', accidental: '' },
+  { letter: 'D', accidental: '#' },
+  { letter: 'E', accidental: '' },
+  { letter: 'F', accidental: '' },
+  { letter: 'F', accidental: '#' },
+  { letter: 'G', accidental: '' },
+  { letter: 'G', accidental: '#' },
+  { letter: 'A', accidental: '' },
+  { letter: 'A', accidental: '#' },
+  { letter: 'B', accidental: '' },
+];
+
+// Spelling for each quarter tone above a semitone, following maqam usage
+// (E half-flat and B half-flat rather than D# half-sharp and A# half-sharp)
+const QUARTER_TONE_SPELLINGS: { letter: NoteLetter; accidental: Accidental }[] = [
+  { letter: 'C', accidental: 'h#' },
+  { letter: 'D', accidental: 'hb' },
+  { letter: 'D', accidental: 'h#' },
+  { letter: 'E', accidental: 'hb' },
+  { letter: 'F', accidental: 'hb' },
+  { letter: 'F', accidental: 'h#' },
+  { letter: 'G', accidental: 'hb' },
+  { letter: 'G', accidental: 'h#' },
+  { letter: 'A', accidental: 'hb' },
+  { letter: 'A', accidental: 'h#' },
+  { letter: 'B', accidental: 'hb' },
+  { letter: 'B', accidental: 'h#' },
+];
+
+// Quarter-tone spellings maqam notation uses. The other quarter tones (F or G half-flat,
+// B half-sharp and so on) spell pitches no maqam has, so they are ranked last and never drilled
+const MAQAM_QUARTER_TONES = new Set(['Ch#', 'Dhb', 'Ehb', 'Fh#', 'Gh#', 'Ahb', 'Bhb']);
+
+export function isMaqamSpelling(note: Note): boolean {
+  return !isQuarterTone(note) || MAQAM_QUARTER_TONES.has(note.letter + note.accidental);
+}
+
+// Convert MIDI number to note (prefer sharps, or spell to fit a key signature)
+// Fractional values are rounded to the nearest quarter tone
+export function midiToNote(midi: number, key?: KeySignature): Note {
+  const quarterTones = Math.round(midi * 2);
+  const octave = Math.floor(quarterTones / 24) - 1;
+  const step = quarterTones - (octave + 1) * 24;
+  const semitone = Math.floor(step / 2);
   
-  const { letter, accidental } = semitonesMap[semitone];
-  return { letter, accidental, octave };
+  const { letter, accidental } = step % 2 === 0
+    ? SEMITONE_SPELLINGS[semitone]
+    : QUARTER_TONE_SPELLINGS[semitone];
+  const defaultSpelling: Note = { letter, accidental, octave };
+  if (!key) return defaultSpelling;
+  
+  // Rank spellings: the key's own accidental, then a natural, then the key's direction (flats
+  // or sharps); quarter tones no maqam spells that way come last
+  const pitch = quarterTones / 2;
+  const prefersFlats = Object.values(key.accidentals).some(a => a === 'b' || a === 'hb');
+  const spellingRank = (note: Note) => {
+    if (!isMaqamSpelling(note)) return 4;
+    if (note.accidental === (key.accidentals[note.letter] ?? '')) return 0;
+    if (note.accidental === '') return 1;
+    const isFlat = note.accidental === 'b' || note.accidental === 'hb';
+    return isFlat === prefersFlats ? 2 : 3;
+  };
+  
+  let best = defaultSpelling;
+  let bestRank = spellingRank(defaultSpelling);
+  for (const candidateLetter of LETTER_ORDER) {
+    for (const candidateAccidental of Object.keys(ACCIDENTAL_OFFSETS) as Accidental[]) {
+      const pitchInOctave = SEMITONES_FROM_C[candidateLetter] + ACCIDENTAL_OFFSETS[candidateAccidental];
+      const candidateOctave = (pitch - pitchInOctave) / 12 - 1;
+      if (!Number.isInteger(candidateOctave)) continue;
+      const candidate: Note = { letter: candidateLetter, accidental: candidateAccidental, octave: candidateOctave };
+      const rank = spellingRank(candidate);
+      if (rank < bestRank) {
+        best = candidate;
+        bestRank = rank;
+      }
+    }
+  }
+  return best;
+}
+
+// Pitch offset of an accidental in semitones
+export function getAccidentalOffset(accidental: Accidental): number {
+  return ACCIDENTAL_OFFSETS[accidental] ?? 0;
+}
+
+// Check whether a note uses a quarter-tone accidental
+export function isQuarterTone(note: Note): boolean {
+  return note.accidental === 'hb' || note.accidental === 'h#';
+}
+
+// Display symbol for an accidental (♯, ♭, 𝄲, 𝄳)
+export function formatAccidental(accidental: Accidental): string {
+  return ACCIDENTAL_SYMBOLS[accidental] ?? '';
+}
+
+// Parse an accidental written as a symbol or in ASCII (#, b, h#, hb)
+function parseAccidental(str: string | undefined): Accidental {
+  switch (str) {
+    case '♯':
+    case '#':
+      return '#';
+    case '♭':
+    case 'b':
+      return 'b';
+    case '𝄲':
+    case 'h#':
+      return 'h#';
+    case '𝄳':
+    case 'hb':
+      return 'hb';
+    default:
+      return '';
+  }
+}
+
+export const DEFAULT_REFERENCE_PITCH = 440;
+
+// Reference pitch for A4 in Hz, shared by the synthesizer and the mic detector
+let referencePitchHz = DEFAULT_REFERENCE_PITCH;
+
+export function setReferencePitch(hz: number): void {
+  referencePitchHz = hz > 0 ? hz : DEFAULT_REFERENCE_PITCH;
 }
 
-// Convert MIDI to frequency (A4 = 440Hz)
+export function getReferencePitch(): number {
+  return referencePitchHz;
+}
+
+// Convert MIDI to frequency (A4 = reference pitch)
 export function midiToFrequency(midi: number): number {
-  return 440 * Math.pow(2, (midi - 69) / 12);
+  return referencePitchHz * Math.pow(2, (midi - 69) / 12);
+}
+
+// Convert frequency to an unrounded MIDI pitch (A4 = reference pitch)
+export function frequencyToMidi(frequency: number): number {
+  return 69 + 12 * Math.log2(frequency / referencePitchHz);
+}
+
+// Active tuning table (null = equal temperament), shared by the synthesizer and the mic detector
+let activeTuning: TuningTable | null = null;
+
+export function setTuning(tuning: TuningTable | null): void {
+  activeTuning = tuning;
+}
+
+export function getTuning(): TuningTable | null {
+  return activeTuning;
+}
+
+// Cents above C of the same octave for a note's pitch class under a tuning table
+export function getTunedCents(note: Note, tuning: TuningTable | null = activeTuning): number {
+  const equalTempered = (SEMITONES_FROM_C[note.letter] + getAccidentalOffset(note.accidental)) * 100;
+  if (!tuning) return equalTempered;
+  
+  const table = tuning.cents;
+  const tuned = table[`${note.letter}${note.accidental}`];
+  if (tuned !== undefined) return tuned;
+  
+  // Quarter tones missing from the table sit halfway between the natural and the full accidental
+  if (note.accidental === 'hb' || note.accidental === 'h#') {
+    const natural = table[note.letter];
+    const full = table[`${note.letter}${note.accidental === 'hb' ? 'b' : '#'}`];
+    if (natural !== undefined && full !== undefined) return (natural + full) / 2;
+  }
+  
+  // Otherwise use the table's entry for the default spelling of the same pitch (e.g. Db -> C#)
+  const enharmonic = midiToNote(60 + equalTempered / 100);
+  const enharmonicCents = table[`${enharmonic.letter}${enharmonic.accidental}`];
+  if (enharmonicCents !== undefined) return enharmonicCents + (enharmonic.octave - 4) * 1200;
+  
+  return equalTempered;
 }
 
-// Convert note to frequency
+// Convert note to frequency through the active tuning table, anchored so A4 = reference pitch
 export function noteToFrequency(note: Note): number {
-  return midiToFrequency(noteToMidi(note));
+  if (!activeTuning) return midiToFrequency(noteToMidi(note));
+  const centsFromA4 = (note.octave - 4) * 1200 + getTunedCents(note) - getTunedCents({ letter: 'A', accidental: '', octave: 4 });
+  return referencePitchHz * Math.pow(2, centsFromA4 / 1200);
+}
+
+// Fractional MIDI pitch of a note as tuned by the active table
+export function noteToTunedMidi(note: Note): number {
+  return frequencyToMidi(noteToFrequency(note));
+}
+
+// Arabic names keyed by quarter-tone pitch (MIDI * 2), built on first use
+let arabicNamesByPitch: Map<number, ArabicNoteName> | null = null;
+
+function getArabicNamesByPitch(): Map<number, ArabicNoteName> {
+  if (!arabicNamesByPitch) {
+    arabicNamesByPitch = new Map(ARABIC_NOTE_NAMES.map(n => [Math.round(noteToMidi(n.note) * 2), n]));
+  }
+  return arabicNamesByPitch;
+}
+
+// Traditional Arabic name of a note in Latin transliteration or Arabic script.
+// Pitches outside Yakah..Ramal Tuti get Qarar (octave below) or Jawab (octave above) prefixes.
+// Returns null for quarter tones that have no traditional name.
+export function getArabicNoteName(note: Note, script: 'latin' | 'arabic' = 'latin'): string | null {
+  const names = getArabicNamesByPitch();
+  const keys = Array.from(names.keys());
+  const lowestKey = Math.min(...keys);
+  const highestKey = Math.max(...keys);
+  const prefixes: string[] = [];
+  
+  let key = Math.round(noteToMidi(note) * 2);
+  while (key < lowestKey) {
+    key += 24;
+    prefixes.push(QARAR_PREFIX[script]);
+  }
+  while (key > highestKey) {
+    key -= 24;
+    prefixes.push(JAWAB_PREFIX[script]);
+  }
+  
+  const entry = names.get(key);
+  if (!entry) return null;
+  return [...prefixes, entry[script]].join(' ');
 }
 
 // Format note for display
 export function formatNote(note: Note, system: NotationSystem): string {
+  if (system === 'arabic') {
+    return getArabicNoteName(note) ?? formatNote(note, 'letters');
+  }
   const baseName = system === 'solfege' ? SOLFEGE_MAP[note.letter] : note.letter;
-  const accidentalSymbol = note.accidental === '#' ? '♯' : note.accidental === 'b' ? '♭' : '';
-  return `${baseName}${accidentalSymbol}${note.octave}`;
+  return `${baseName}${formatAccidental(note.accidental)}${note.octave}`;
 }
 
-// Format note without octave
+// Format note without octave (Arabic names use the pitch class's name in the Rast octave)
 export function formatNoteShort(note: Note, system: NotationSystem): string {
+  if (system === 'arabic') {
+    return getArabicNoteName({ ...note, octave: 3 }) ?? formatNoteShort(note, 'letters');
+  }
   const baseName = system === 'solfege' ? SOLFEGE_MAP[note.letter] : note.letter;
-  const accidentalSymbol = note.accidental === '#' ? '♯' : note.accidental === 'b' ? '♭' : '';
-  return `${baseName}${accidentalSymbol}`;
+  return `${baseName}${formatAccidental(note.accidental)}`;
 }
 
-// Parse note string (e.g., "Sol3", "G3", "F#4")
+// Normalize an Arabic name for lookup: case, apostrophes, hyphens and spacing are ignored
+function normalizeArabicName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/['’‘`ʿʾ]/g, '')
+    .replace(/[-_\s]+/g, ' ')
+    .trim();
+}
+
+// Parse a traditional Arabic name (Latin or Arabic script), e.g. "Sikah", "Jawab Husayni", "نوى"
+function parseArabicNoteName(name: string): Note | null {
+  const normalized = normalizeArabicName(name);
+  const alias = ARABIC_NAME_ALIASES[normalized];
+  const entry = ARABIC_NOTE_NAMES.find(n =>
+    normalizeArabicName(n.latin) === normalized ||
+    n.arabic === normalized ||
+    (alias !== undefined && n.latin === alias)
+  );
+  if (entry) return { ...entry.note };
+  
+  // Strip one register prefix and shift the remaining name by an octave
+  const registers = [
+    { prefix: QARAR_PREFIX, shift: -1 },
+    { prefix: JAWAB_PREFIX, shift: 1 },
+  ];
+  for (const { prefix, shift } of registers) {
+    for (const word of [prefix.latin.toLowerCase(), prefix.arabic]) {
+      if (normalized.startsWith(`${word} `)) {
+        const rest = parseArabicNoteName(normalized.slice(word.length + 1));
+        if (rest) return { ...rest, octave: rest.octave + shift };
+      }
+    }
+  }
+  
+  return null;
+}
+
+// Parse note string (e.g., "Sol3", "G3", "F#4", "Ehb3", "Si𝄳3", "Sikah", "Jawab Nawa")
 export function parseNote(noteStr: string): Note | null {
   // Try solfege first
-  const solfegeMatch = noteStr.match(/^(Do|Re|Mi|Fa|Sol|La|Si)(♯|♭|#|b)?(\d)$/i);
+  const solfegeMatch = noteStr.match(/^(Do|Re|Mi|Fa|Sol|La|Si)(h#|hb|𝄲|𝄳|♯|♭|#|b)?(\d)$/i);
   if (solfegeMatch) {
     const solfegeName = solfegeMatch[1];
     const accidental = solfegeMatch[2];
@@ -106,14 +365,14 @@ export function parseNote(noteStr: string): Note | null {
     if (letter) {
       return {
         letter,
-        accidental: accidental === '♯' || accidental === '#' ? '#' : accidental === '♭' || accidental === 'b' ? 'b' : '',
+        accidental: parseAccidental(accidental?.toLowerCase()),
         octave,
       };
     }
   }
   
   // Try letter notation
-  const letterMatch = noteStr.match(/^([A-Ga-g])(♯|♭|#|b)?(\d)$/);
+  const letterMatch = noteStr.match(/^([A-Ga-g])(h#|hb|𝄲|𝄳|♯|♭|#|b)?(\d)$/);
   if (letterMatch) {
     const letter = letterMatch[1].toUpperCase() as NoteLetter;
     const accidental = letterMatch[2];
@@ -121,12 +380,13 @@ export function parseNote(noteStr: string): Note | null {
     
     return {
       letter,
-      accidental: accidental === '♯' || accidental === '#' ? '#' : accidental === '♭' || accidental === 'b' ? 'b' : '',
+      accidental: parseAccidental(accidental),
       octave,
     };
   }
   
-  return null;
+  // Try traditional Arabic names
+  return parseArabicNoteName(noteStr);
 }
 
 // Check if two notes are equal
@@ -134,31 +394,49 @@ export function notesEqual(a: Note, b: Note): boolean {
   return noteToMidi(a) === noteToMidi(b);
 }
 
+const GRID_STEPS_PER_OCTAVE: Record<PitchGrid, number> = {
+  '12-tet': 12,
+  '24-tet': 24,
+  '53-comma': 53,
+};
+
+// Size of one grid step in semitones
+export function gridStepSemitones(grid: PitchGrid): number {
+  return 12 / GRID_STEPS_PER_OCTAVE[grid];
+}
+
+// Snap a fractional MIDI pitch to the nearest grid step (grids are anchored on C)
+export function quantizeMidi(midi: number, grid: PitchGrid): number {
+  const step = gridStepSemitones(grid);
+  return Math.round(midi / step) * step;
+}
+
+// Check if a quantized pitch lands on the same grid step as a (possibly microtonal) note,
+// taking the note's pitch from the active tuning table
+export function pitchMatchesNote(midi: number, note: Note, grid: PitchGrid): boolean {
+  const step = gridStepSemitones(grid);
+  return Math.abs(quantizeMidi(midi, grid) - quantizeMidi(noteToTunedMidi(note), grid)) < step / 2;
+}
+
 // Generate a random note within a range (inclusive)
 // If includeAccidentals is false, only return natural notes (no sharps/flats)
 // If avoidRepetition is true and previousNote is provided, avoid returning the same note
+// If includeQuarterTones is true, half-flat and half-sharp notes are candidates too
+// With a key signature, notes are spelled in the key and "naturals" are the key's own notes
 export function randomNoteInRange(
   lowNote: Note, 
   highNote: Note, 
   includeAccidentals: boolean = true,
   avoidRepetition: boolean = false,
-  previousNote?: Note
+  previousNote?: Note,
+  includeQuarterTones: boolean = false,
+  key?: KeySignature
 ): Note {
-  const lowMidi = noteToMidi(lowNote);
-  const highMidi = noteToMidi(highNote);
-  
-  let candidateNotes: Note[];
-  
-  if (includeAccidentals) {
-    candidateNotes = getNotesInRange(lowNote, highNote);
-  } else {
-    // Only natural notes
-    candidateNotes = getNotesInRange(lowNote, highNote).filter(n => n.accidental === '');
-  }
+  let candidateNotes = getCandidateNotes(lowNote, highNote, includeAccidentals, includeQuarterTones, key);
   
   if (candidateNotes.length === 0) {
     // Fallback if no notes in range
-    return midiToNote(lowMidi);
+    return midiToNote(noteToMidi(lowNote), key);
   }
   
   // If avoidRepetition is true and we have a previous note and more than 1 candidate
@@ -169,43 +447,63 @@ export function randomNoteInRange(
   return candidateNotes[Math.floor(Math.random() * candidateNotes.length)];
 }
 
-// Get all notes in range
-export function getNotesInRange(lowNote: Note, highNote: Note): Note[] {
-  const lowMidi = noteToMidi(lowNote);
+// The notes randomNoteInRange chooses from, lowest first
+export function getCandidateNotes(
+  lowNote: Note,
+  highNote: Note,
+  includeAccidentals: boolean = true,
+  includeQuarterTones: boolean = false,
+  key?: KeySignature
+): Note[] {
+  // Quarter-tone steps are always generated so maqam signatures (e.g. Rast's E half-flat) stay reachable
+  return getNotesInRange(lowNote, highNote, true, key).filter(n => {
+    if (!isMaqamSpelling(n)) return false;
+    const inKey = n.accidental === (key?.accidentals[n.letter] ?? '');
+    if (!includeAccidentals) {
+      // Only notes of the key, plus quarter tones when requested
+      return inKey || (includeQuarterTones && isQuarterTone(n));
+    }
+    return inKey || includeQuarterTones || !isQuarterTone(n);
+  });
+}
+
+// Get all notes in range, in semitone steps or quarter-tone steps, optionally spelled in a key
+export function getNotesInRange(lowNote: Note, highNote: Note, includeQuarterTones: boolean = false, key?: KeySignature): Note[] {
+  const step = includeQuarterTones ? 0.5 : 1;
+  const lowMidi = Math.ceil(noteToMidi(lowNote) / step) * step;
   const highMidi = noteToMidi(highNote);
   const notes: Note[] = [];
   
-  for (let midi = lowMidi; midi <= highMidi; midi++) {
-    notes.push(midiToNote(midi));
+  for (let midi = lowMidi; midi <= highMidi; midi += step) {
+    notes.push(midiToNote(midi, key));
   }
   
   return notes;
 }
 
-// Get staff position for a note (relative to middle line B3)
-// Returns number of steps from middle line (positive = up, negative = down)
-// This places E3 on the bottom line, suitable for oud range
-export function getStaffPosition(note: Note): number {
-  // B3 is on the middle line (octave-transposed treble clef for oud)
-  // Each step is a line or space
+// Get staff position for a note: steps from the clef's middle line (positive = up, negative = down)
+// `transposition` is how many octaves the part is written above sounding pitch.
+// Without a clef, B3 sits on the middle line (treble 8vb, E3 on the bottom line)
+export function getStaffPosition(note: Note, clef?: Clef, transposition: number = 0): number {
+  const middleLine = clef?.middleLine ?? { letter: 'B', accidental: '', octave: 3 };
   const noteIndex = LETTER_ORDER.indexOf(note.letter);
-  const b3Index = LETTER_ORDER.indexOf('B');
+  const middleIndex = LETTER_ORDER.indexOf(middleLine.letter);
   
-  // Calculate position relative to B3
-  const octaveDiff = note.octave - 3;
-  const letterDiff = noteIndex - b3Index;
+  // Each step is a line or space
+  const octaveDiff = note.octave + transposition - middleLine.octave;
+  const letterDiff = noteIndex - middleIndex;
   
   return octaveDiff * 7 + letterDiff;
 }
 
 // Check if note needs ledger lines and how many
-export function getLedgerLines(note: Note): { above: number; below: number } {
-  const position = getStaffPosition(note);
+export function getLedgerLines(note: Note, clef?: Clef, transposition: number = 0): { above: number; below: number } {
+  const position = getStaffPosition(note, clef, transposition);
   
-  // Staff spans from E4 (position -4) to F5 (position +4)
-  // Below E4 needs ledger lines, above F5 needs ledger lines
-  const above = position > 5 ? Math.floor((position - 5) / 2) : 0;
-  const below = position < -5 ? Math.floor((-5 - position) / 2) : 0;
+  // The five lines span positions -4 to +4; ledger lines fall on every
+  // even position from +/-6 outwards
+  const above = position >= 6 ? Math.floor((position - 4) / 2) : 0;
+  const below = position <= -6 ? Math.floor((-4 - position) / 2) : 0;
   
   return { above, below };
 }
@@ -0,0 +1,75 @@
+// Onset (attack) detection by spectral flux, so repeated plucks of one pitch
+// can be told apart. Runs in the pitch worklet and in the AnalyserNode fallback.
+
+import { fft } from './fft';
+
+const FRAME_SIZE = 1024;
+// Log compression keeps quiet and loud plucks on a comparable scale
+const COMPRESSION = 20;
+// Flux must beat the recent median by this factor plus this floor
+const THRESHOLD_RATIO = 1.3;
+const THRESHOLD_FLOOR = 0.05;
+const HISTORY_FRAMES = 16;
+// A pluck can't retrigger sooner than this, in seconds
+const MIN_INTERVAL_S = 0.06;
+
+export class OnsetDetector {
+  private window = new Float32Array(FRAME_SIZE);
+  private re = new Float32Array(FRAME_SIZE);
+  private im = new Float32Array(FRAME_SIZE);
+  private previous = new Float32Array(FRAME_SIZE / 2);
+  private history: number[] = [];
+  private armed = true;
+  private lastOnsetTime = -Infinity;
+
+  constructor() {
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1));
+    }
+  }
+
+  reset(): void {
+    this.previous.fill(0);
+    this.history = [];
+    this.armed = true;
+    this.lastOnsetTime = -Infinity;
+  }
+
+  // Feed the newest samples (at least FRAME_SIZE); true when this frame holds an attack
+  process(samples: Float32Array, time: number): boolean {
+    const offset = samples.length - FRAME_SIZE;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      this.re[i] = samples[offset + i] * this.window[i];
+      this.im[i] = 0;
+    }
+    fft(this.re, this.im);
+
+    // Half-wave rectified rise in log magnitude across the spectrum
+    let flux = 0;
+    for (let k = 0; k < this.previous.length; k++) {
+      const magnitude = Math.log1p(COMPRESSION * Math.hypot(this.re[k], this.im[k]));
+      const rise = magnitude - this.previous[k];
+      if (rise > 0) flux += rise;
+      this.previous[k] = magnitude;
+    }
+    flux /= this.previous.length;
+
+    // The first frame has nothing to rise from
+    const warmingUp = this.history.length === 0;
+    const sorted = [...this.history].sort((a, b) => a - b);
+    const median = sorted.length ? sorted[sorted.length >> 1] : 0;
+    const threshold = median * THRESHOLD_RATIO + THRESHOLD_FLOOR;
+    this.history.push(flux);
+    if (this.history.length > HISTORY_FRAMES) this.history.shift();
+
+    // Fire on the rising edge, then wait for the flux to settle before rearming
+    if (warmingUp || flux <= threshold) {
+      this.armed = true;
+      return false;
+    }
+    if (!this.armed || time - this.lastOnsetTime < MIN_INTERVAL_S) return false;
+    this.armed = false;
+    this.lastOnsetTime = time;
+    return true;
+  }
+}
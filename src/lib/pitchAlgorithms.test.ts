@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { PitchAlgorithm, estimatePitch } from './pitchAlgorithms';
+
+const SAMPLE_RATE = 48000;
+const FRAME = 2048;
+
+// A plucked-string-like tone: a fundamental with decaying harmonics
+function tone(frequency: number, harmonics = [1, 0.6, 0.4, 0.25], amplitude = 0.3): Float32Array {
+  const buffer = new Float32Array(FRAME);
+  for (let i = 0; i < FRAME; i++) {
+    const t = i / SAMPLE_RATE;
+    buffer[i] = amplitude * harmonics.reduce((sum, level, h) => sum + level * Math.sin(2 * Math.PI * frequency * (h + 1) * t), 0);
+  }
+  return buffer;
+}
+
+const cents = (a: number, b: number) => 1200 * Math.log2(a / b);
+
+describe.each<PitchAlgorithm>(['yin', 'mpm'])('%s', algorithm => {
+  it.each([73.42, 110, 146.83, 220, 329.63, 523.25])('finds %f Hz within a few cents', frequency => {
+    const estimate = estimatePitch(algorithm, tone(frequency), SAMPLE_RATE);
+    expect(estimate).not.toBeNull();
+    expect(Math.abs(cents(estimate!.frequency, frequency))).toBeLessThan(5);
+    expect(estimate!.clarity).toBeGreaterThan(0.9);
+  });
+
+  it('tells a quarter tone from its neighbours', () => {
+    const halfFlat = 440 * Math.pow(2, -5.5 / 12); // E half-flat 4
+    const estimate = estimatePitch(algorithm, tone(halfFlat), SAMPLE_RATE);
+    expect(Math.abs(cents(estimate!.frequency, halfFlat))).toBeLessThan(10);
+  });
+
+  it('is not fooled by a strong second harmonic', () => {
+    const estimate = estimatePitch(algorithm, tone(110, [0.5, 1, 0.3]), SAMPLE_RATE);
+    expect(Math.abs(cents(estimate!.frequency, 110))).toBeLessThan(5);
+  });
+
+  it('reports noise as unclear', () => {
+    const noise = new Float32Array(FRAME);
+    let seed = 1;
+    for (let i = 0; i < FRAME; i++) {
+      seed = (seed * 16807) % 2147483647;
+      noise[i] = 0.3 * (seed / 2147483647 - 0.5);
+    }
+    const estimate = estimatePitch(algorithm, noise, SAMPLE_RATE);
+    expect(estimate === null || estimate.clarity < 0.8).toBe(true);
+  });
+});
+
+describe('estimatePitch', () => {
+  it('skips silent frames', () => {
+    expect(estimatePitch('yin', new Float32Array(FRAME), SAMPLE_RATE)).toBeNull();
+    expect(estimatePitch('mpm', tone(220, [1], 0.0001), SAMPLE_RATE)).toBeNull();
+  });
+
+  it('keeps the legacy autocorrelation roughly in tune', () => {
+    const estimate = estimatePitch('autocorrelation', tone(220), SAMPLE_RATE);
+    expect(Math.abs(cents(estimate!.frequency, 220))).toBeLessThan(20);
+  });
+});
@@ -0,0 +1,207 @@
+// Pitch estimators for the mic detector: YIN, McLeod (MPM) and the original autocorrelation.
+// YIN and MPM get their correlations from an FFT, O(n log n) per frame instead of window x lags
+
+import { fft, inverseFft, nextPowerOfTwo } from './fft';
+
+export type PitchAlgorithm = 'yin' | 'mpm' | 'autocorrelation';
+
+export interface PitchEstimate {
+  frequency: number;
+  clarity: number; // 0-1, how periodic the frame is; low values are noise or transients
+}
+
+// Search range: a little below the oud's low C2 up to well above its top string
+const MIN_FREQUENCY = 60;
+const MAX_FREQUENCY = 1500;
+const MIN_RMS = 0.01;
+
+const YIN_THRESHOLD = 0.15;
+const MPM_PEAK_RATIO = 0.9;
+
+// Vertex of the parabola through (x-1, a), (x, b), (x+1, c), as an offset from x
+function parabolicOffset(a: number, b: number, c: number): number {
+  const denominator = a - 2 * b + c;
+  if (denominator === 0) return 0;
+  return (0.5 * (a - c)) / denominator;
+}
+
+// Scratch buffers by FFT size, so the worklet doesn't allocate per frame
+const scratch = new Map<number, { are: Float32Array; aim: Float32Array; bre: Float32Array; bim: Float32Array }>();
+
+// Σ a[i] * b[i + lag] over i < a.length, for every lag up to maxLag. Indices past size wrap
+// around, so size must exceed the last index reached: a.length + maxLag, or b.length + maxLag
+// when b runs past it. Passing the same array twice takes the one-FFT autocorrelation path
+function crossCorrelate(a: Float32Array, b: Float32Array, size: number): Float32Array {
+  let buffers = scratch.get(size);
+  if (!buffers) {
+    buffers = { are: new Float32Array(size), aim: new Float32Array(size), bre: new Float32Array(size), bim: new Float32Array(size) };
+    scratch.set(size, buffers);
+  }
+  const { are, aim, bre, bim } = buffers;
+  are.fill(0);
+  aim.fill(0);
+  bre.fill(0);
+  bim.fill(0);
+  are.set(a);
+  fft(are, aim);
+  if (a === b) {
+    for (let k = 0; k < size; k++) {
+      are[k] = are[k] * are[k] + aim[k] * aim[k];
+      aim[k] = 0;
+    }
+    inverseFft(are, aim);
+    return are;
+  }
+  bre.set(b);
+  fft(bre, bim);
+  // conj(A) * B
+  for (let k = 0; k < size; k++) {
+    const re = are[k] * bre[k] + aim[k] * bim[k];
+    const im = are[k] * bim[k] - aim[k] * bre[k];
+    are[k] = re;
+    aim[k] = im;
+  }
+  inverseFft(are, aim);
+  return are;
+}
+
+function lagRange(size: number, sampleRate: number): { minLag: number; maxLag: number } {
+  const minLag = Math.max(2, Math.floor(sampleRate / MAX_FREQUENCY));
+  const maxLag = Math.min(Math.ceil(sampleRate / MIN_FREQUENCY), Math.floor(size / 2));
+  return { minLag, maxLag };
+}
+
+// YIN (de Cheveigné & Kawahara): cumulative-mean-normalized difference function,
+// first dip under the threshold, refined by parabolic interpolation
+export function yin(buffer: Float32Array, sampleRate: number): PitchEstimate | null {
+  const { minLag, maxLag } = lagRange(buffer.length, sampleRate);
+  const window = Math.min(1024, buffer.length - maxLag - 1);
+  const cmnd = new Float32Array(maxLag + 2);
+
+  // Difference d(lag) = Σ x[i]² + Σ x[i+lag]² - 2 Σ x[i]x[i+lag] over the window;
+  // the cross term comes from the FFT and the shifted energy slides along
+  const correlation = crossCorrelate(buffer.subarray(0, window), buffer.subarray(0, window + maxLag + 1), nextPowerOfTwo(window + maxLag + 2));
+  let energy = 0;
+  for (let i = 0; i < window; i++) energy += buffer[i] * buffer[i];
+  let shiftedEnergy = energy;
+
+  let runningSum = 0;
+  cmnd[0] = 1;
+  for (let lag = 1; lag <= maxLag + 1; lag++) {
+    shiftedEnergy += buffer[lag + window - 1] * buffer[lag + window - 1] - buffer[lag - 1] * buffer[lag - 1];
+    const sum = Math.max(0, energy + shiftedEnergy - 2 * correlation[lag]);
+    runningSum += sum;
+    cmnd[lag] = runningSum === 0 ? 1 : (sum * lag) / runningSum;
+  }
+
+  // First lag under the threshold, walked down to the bottom of its dip;
+  // without one, fall back to the deepest dip and let clarity report the doubt
+  let best = -1;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (cmnd[lag] < YIN_THRESHOLD) {
+      while (lag + 1 <= maxLag && cmnd[lag + 1] < cmnd[lag]) lag++;
+      best = lag;
+      break;
+    }
+  }
+  if (best === -1) {
+    best = minLag;
+    for (let lag = minLag + 1; lag <= maxLag; lag++) {
+      if (cmnd[lag] < cmnd[best]) best = lag;
+    }
+  }
+
+  const refined = best + parabolicOffset(cmnd[best - 1], cmnd[best], cmnd[best + 1]);
+  const frequency = sampleRate / refined;
+  if (frequency < MIN_FREQUENCY || frequency > MAX_FREQUENCY) return null;
+  return { frequency, clarity: Math.max(0, Math.min(1, 1 - cmnd[best])) };
+}
+
+// McLeod Pitch Method: normalized square difference function, first key maximum
+// within MPM_PEAK_RATIO of the highest, refined by parabolic interpolation
+export function mpm(buffer: Float32Array, sampleRate: number): PitchEstimate | null {
+  const size = buffer.length;
+  const { minLag, maxLag } = lagRange(size, sampleRate);
+  const nsdf = new Float32Array(maxLag + 2);
+
+  // Autocorrelation from the FFT; the energy term m(lag) = Σ x[i]² + x[i+lag]² over the
+  // overlap loses one sample from each end per lag
+  const acf = crossCorrelate(buffer, buffer, nextPowerOfTwo(size + maxLag + 2));
+  let energy = 0;
+  for (let i = 0; i < size; i++) energy += 2 * buffer[i] * buffer[i];
+  for (let lag = 0; lag <= maxLag + 1; lag++) {
+    if (lag > 0) energy -= buffer[lag - 1] * buffer[lag - 1] + buffer[size - lag] * buffer[size - lag];
+    nsdf[lag] = energy <= 0 ? 0 : (2 * acf[lag]) / energy;
+  }
+
+  // Highest point between each positive-going and negative-going zero crossing
+  const keyMaxima: number[] = [];
+  let lag = 1;
+  while (lag <= maxLag && nsdf[lag] > 0) lag++;
+  while (lag <= maxLag) {
+    while (lag <= maxLag && nsdf[lag] <= 0) lag++;
+    let peak = -1;
+    while (lag <= maxLag && nsdf[lag] > 0) {
+      if (lag >= minLag && (peak === -1 || nsdf[lag] > nsdf[peak])) peak = lag;
+      lag++;
+    }
+    if (peak !== -1) keyMaxima.push(peak);
+  }
+  if (keyMaxima.length === 0) return null;
+
+  const highest = Math.max(...keyMaxima.map(k => nsdf[k]));
+  const chosen = keyMaxima.find(k => nsdf[k] >= highest * MPM_PEAK_RATIO)!;
+
+  const offset = parabolicOffset(nsdf[chosen - 1], nsdf[chosen], nsdf[chosen + 1]);
+  const refined = chosen + offset;
+  const frequency = sampleRate / refined;
+  if (frequency < MIN_FREQUENCY || frequency > MAX_FREQUENCY) return null;
+  return { frequency, clarity: Math.max(0, Math.min(1, nsdf[chosen])) };
+}
+
+// The original detector: full autocorrelation and its highest local maximum
+export function autocorrelation(buffer: Float32Array, sampleRate: number): PitchEstimate | null {
+  const size = buffer.length;
+  let start = 0;
+  for (let i = 0; i < size; i++) {
+    if (Math.abs(buffer[i]) > 0.02) {
+      start = i;
+      break;
+    }
+  }
+  const trimmed = buffer.slice(start);
+  const len = trimmed.length;
+  const autocorr = new Float32Array(len);
+  for (let lag = 0; lag < len; lag++) {
+    let sum = 0;
+    for (let i = 0; i < len - lag; i++) sum += trimmed[i] * trimmed[i + lag];
+    autocorr[lag] = sum;
+  }
+  let peakIndex = -1;
+  let peak = 0;
+  for (let i = 1; i < len - 1; i++) {
+    if (autocorr[i] > peak && autocorr[i] > autocorr[i - 1] && autocorr[i] > autocorr[i + 1]) {
+      peak = autocorr[i];
+      peakIndex = i;
+    }
+  }
+  if (peakIndex <= 0) return null;
+  const frequency = sampleRate / peakIndex;
+  if (frequency < 50 || frequency > 2000) return null;
+  return { frequency, clarity: autocorr[0] > 0 ? Math.min(1, peak / autocorr[0]) : 0 };
+}
+
+const ESTIMATORS: Record<PitchAlgorithm, (buffer: Float32Array, sampleRate: number) => PitchEstimate | null> = {
+  yin,
+  mpm,
+  autocorrelation,
+};
+
+// Estimate the pitch of one frame, skipping frames too quiet to judge
+export function estimatePitch(algorithm: PitchAlgorithm, buffer: Float32Array, sampleRate: number): PitchEstimate | null {
+  let rms = 0;
+  for (let i = 0; i < buffer.length; i++) rms += buffer[i] * buffer[i];
+  rms = Math.sqrt(rms / buffer.length);
+  if (rms < MIN_RMS) return null;
+  return ESTIMATORS[algorithm](buffer, sampleRate);
+}
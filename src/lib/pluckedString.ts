@@ -0,0 +1,71 @@
+// Karplus-Strong plucked string, rendered ahead of time into a sample buffer
+
+export interface PluckOptions {
+  pluckPosition: number; // Where the risha strikes, as a fraction of the string from the bridge
+  decaySeconds: number; // Time for the string to fall by 60 dB
+  brightness: number; // 0-1, how much high end the pluck carries into the string
+}
+
+export const DEFAULT_PLUCK: PluckOptions = {
+  pluckPosition: 0.13,
+  decaySeconds: 1.5,
+  brightness: 0.7,
+};
+
+// Render one string sounding `frequency` for `duration` seconds
+export function renderPluckedString(
+  sampleRate: number,
+  frequency: number,
+  duration: number,
+  options: PluckOptions = DEFAULT_PLUCK
+): Float32Array {
+  const output = new Float32Array(Math.ceil(sampleRate * duration));
+
+  // The loop's averaging filter adds half a sample of delay; an allpass makes up the
+  // fractional remainder so high notes stay in tune
+  const period = sampleRate / frequency;
+  const delay = Math.max(2, Math.floor(period - 0.5));
+  const fraction = period - 0.5 - delay;
+  const allpass = (1 - fraction) / (1 + fraction);
+
+  // Excitation: a noise burst one period long, softened for a duller pluck
+  const excitation = new Float32Array(delay);
+  let smoothed = 0;
+  for (let i = 0; i < delay; i++) {
+    smoothed += options.brightness * ((Math.random() * 2 - 1) - smoothed);
+    excitation[i] = smoothed;
+  }
+  // Striking at a point along the string cancels the harmonics with a node there,
+  // which a comb filter over the excitation reproduces
+  const combDelay = Math.max(1, Math.round(options.pluckPosition * delay));
+  const line = new Float32Array(delay);
+  for (let i = 0; i < delay; i++) {
+    line[i] = excitation[i] - (i >= combDelay ? excitation[i - combDelay] : 0);
+  }
+
+  // Loss per trip round the loop for the requested decay
+  const loss = Math.pow(10, -3 / (options.decaySeconds * frequency));
+
+  let index = 0;
+  let previous = 0;
+  let allpassIn = 0;
+  let allpassOut = 0;
+  for (let n = 0; n < output.length; n++) {
+    const current = line[index];
+    output[n] = current;
+    const averaged = loss * 0.5 * (current + previous);
+    previous = current;
+    allpassOut = allpass * averaged + allpassIn - allpass * allpassOut;
+    allpassIn = averaged;
+    line[index] = allpassOut;
+    index = (index + 1) % delay;
+  }
+
+  // Normalise so every note leaves the body at the same level
+  let peak = 0;
+  for (let n = 0; n < output.length; n++) peak = Math.max(peak, Math.abs(output[n]));
+  if (peak > 0) {
+    for (let n = 0; n < output.length; n++) output[n] /= peak;
+  }
+  return output;
+}
@@ -0,0 +1,170 @@
+// Note durations, time signatures and rhythm generation for timed sight-reading
+
+export type NoteValue = 'whole' | 'half' | 'quarter' | 'eighth' | 'sixteenth';
+
+export interface Duration {
+  value: NoteValue;
+  dotted?: boolean;
+}
+
+export type TimeSignatureId = '2/4' | '3/4' | '4/4' | '6/8';
+
+export interface TimeSignature {
+  id: TimeSignatureId;
+  beats: number;
+  beatValue: 2 | 4 | 8;
+}
+
+// One slot in a measure: a note or a rest, placed by its onset within the measure
+export interface RhythmEvent {
+  duration: Duration;
+  isRest: boolean;
+  measure: number; // Running measure number within the session
+  onset: number; // Quarter-note beats from the start of the measure
+}
+
+export const NOTE_VALUES: NoteValue[] = ['whole', 'half', 'quarter', 'eighth', 'sixteenth'];
+
+// Length of each value in quarter-note beats
+const NOTE_VALUE_BEATS: Record<NoteValue, number> = {
+  whole: 4,
+  half: 2,
+  quarter: 1,
+  eighth: 0.5,
+  sixteenth: 0.25,
+};
+
+// Flags (or beams) drawn on the stem
+export const NOTE_VALUE_FLAGS: Record<NoteValue, number> = {
+  whole: 0,
+  half: 0,
+  quarter: 0,
+  eighth: 1,
+  sixteenth: 2,
+};
+
+export const REST_GLYPHS: Record<NoteValue, string> = {
+  whole: '𝄻',
+  half: '𝄼',
+  quarter: '𝄽',
+  eighth: '𝄾',
+  sixteenth: '𝄿',
+};
+
+export const TIME_SIGNATURES: TimeSignature[] = [
+  { id: '2/4', beats: 2, beatValue: 4 },
+  { id: '3/4', beats: 3, beatValue: 4 },
+  { id: '4/4', beats: 4, beatValue: 4 },
+  { id: '6/8', beats: 6, beatValue: 8 },
+];
+
+export function getTimeSignature(id: TimeSignatureId): TimeSignature {
+  return TIME_SIGNATURES.find(t => t.id === id) ?? TIME_SIGNATURES[2];
+}
+
+export function durationBeats(duration: Duration): number {
+  const beats = NOTE_VALUE_BEATS[duration.value];
+  return duration.dotted ? beats * 1.5 : beats;
+}
+
+export function measureBeats(timeSignature: TimeSignature): number {
+  return (timeSignature.beats * 4) / timeSignature.beatValue;
+}
+
+// Compound meters (6/8) beam and count in dotted quarters
+export function isCompound(timeSignature: TimeSignature): boolean {
+  return timeSignature.beatValue === 8 && timeSignature.beats % 3 === 0;
+}
+
+// Milliseconds per quarter note; the tempo counts the signature's beat unit
+export function quarterNoteMs(tempoBpm: number, timeSignature: TimeSignature): number {
+  return (60000 / tempoBpm) * (timeSignature.beatValue / 4);
+}
+
+// Every duration the generator may use, in sixteenth-note units
+function durationChoices(values: NoteValue[], includeDotted: boolean): { duration: Duration; units: number }[] {
+  const choices: { duration: Duration; units: number }[] = [];
+  for (const value of values) {
+    choices.push({ duration: { value }, units: NOTE_VALUE_BEATS[value] * 4 });
+    // A dotted sixteenth would need a thirty-second to complete it
+    if (includeDotted && value !== 'sixteenth') {
+      choices.push({ duration: { value, dotted: true }, units: NOTE_VALUE_BEATS[value] * 6 });
+    }
+  }
+  return choices;
+}
+
+// Fill one measure with random durations that add up exactly to the time signature
+export function randomMeasure(
+  timeSignature: TimeSignature,
+  measure: number,
+  values: NoteValue[],
+  includeDotted: boolean,
+  includeRests: boolean
+): RhythmEvent[] {
+  const total = measureBeats(timeSignature) * 4;
+  let choices = durationChoices(values, includeDotted);
+
+  // Remainders that can still be completed exactly with the allowed durations
+  const fillable: boolean[] = [true];
+  for (let r = 1; r <= total; r++) {
+    fillable[r] = choices.some(c => c.units <= r && fillable[r - c.units]);
+  }
+  // Fall back to the largest plain values when the selection can't fill this meter
+  const fallback = !fillable[total];
+  if (fallback) {
+    choices = durationChoices(NOTE_VALUES, false);
+    for (let r = 1; r <= total; r++) {
+      fillable[r] = choices.some(c => c.units <= r && fillable[r - c.units]);
+    }
+  }
+
+  const events: RhythmEvent[] = [];
+  let used = 0;
+  while (used < total) {
+    const remaining = total - used;
+    const candidates = choices.filter(c => c.units <= remaining && fillable[remaining - c.units]);
+    const choice = fallback ? candidates[0] : candidates[Math.floor(Math.random() * candidates.length)];
+    events.push({
+      duration: choice.duration,
+      isRest: includeRests && Math.random() < 0.15,
+      measure,
+      onset: used / 4,
+    });
+    used += choice.units;
+  }
+
+  // Keep at least one note to play in every measure
+  if (events.every(e => e.isRest)) {
+    events[0] = { ...events[0], isRest: false };
+  }
+
+  return events;
+}
+
+// Beam group id for each event (null when it stands alone): consecutive eighths and
+// sixteenths that fall within the same beat of the same measure share a beam
+export function getBeamGroups(events: (RhythmEvent | undefined)[], timeSignature: TimeSignature): (number | null)[] {
+  const beamUnit = isCompound(timeSignature) ? 1.5 : 1;
+  const beamKey = (event: RhythmEvent | undefined) => {
+    if (!event || event.isRest || NOTE_VALUE_FLAGS[event.duration.value] === 0) return null;
+    const beat = Math.floor(event.onset / beamUnit);
+    const end = event.onset + durationBeats(event.duration);
+    // Notes that spill into the next beat are flagged rather than beamed
+    if (end > (beat + 1) * beamUnit + 1e-9) return null;
+    return `${event.measure}:${beat}`;
+  };
+
+  const keys = events.map(beamKey);
+  const groups: (number | null)[] = keys.map(() => null);
+  let groupId = 0;
+  for (let i = 0; i < keys.length; i++) {
+    if (keys[i] === null) continue;
+    const joinsPrevious = i > 0 && keys[i - 1] === keys[i];
+    const joinsNext = i < keys.length - 1 && keys[i + 1] === keys[i];
+    if (!joinsPrevious && !joinsNext) continue;
+    if (!joinsPrevious) groupId++;
+    groups[i] = groupId;
+  }
+  return groups;
+}
@@ -0,0 +1,202 @@
+// Recorded oud samples: the sample map, choosing a sample for a note, and loading packs
+//
+// A pack is a set of audio files with an optional manifest.json:
+//   { "name": "My oud", "samples": [
+//     { "file": "2-A2-100.wav", "string": 2, "note": "A2", "velocity": 100, "release": "2-A2-rel.wav" } ] }
+// `string` is the course counted from the top (1 = lowest) and may be left out for a sample
+// any course can use; `velocity` is the top of the layer (1-127). Without a manifest the file
+// names carry the same fields: `<string>-<note>[-<velocity>][-rel]`, e.g. 2-A2-64.wav.
+// No samples ship with the app; until a pack is loaded the plucked-string voice plays.
+
+import { parseNote, noteToMidi } from './noteUtils';
+import { StoredSampleFile, deleteUserPack, loadUserPack, saveUserPack } from './sampleStore';
+
+export interface SampleZone {
+  course: number | null; // Index into settings.strings, or null for any course
+  rootMidi: number;
+  rootFrequency: number; // Pitch the sample was recorded at
+  maxVelocity: number; // Top of the velocity layer, 1-127
+  buffer: AudioBuffer;
+  release: AudioBuffer | null; // Tail played when the note is let go
+}
+
+export interface SamplePack {
+  name: string;
+  zones: SampleZone[];
+}
+
+interface ManifestEntry {
+  file: string;
+  string?: number;
+  note: string;
+  velocity?: number;
+  release?: string;
+  frequency?: number;
+}
+
+interface SampleManifest {
+  name?: string;
+  samples: ManifestEntry[];
+}
+
+type PackListener = (pack: SamplePack | null) => void;
+
+const MANIFEST_FILE = 'manifest.json';
+const FILE_PATTERN = /^(\d+)-([A-Ga-g](?:#|b)?\d)(?:-(\d+))?(-rel)?\.(wav|mp3|ogg|oga|flac|m4a|aac)$/i;
+
+// Samples are recorded at concert pitch, whatever reference the app is set to
+const recordedFrequency = (midi: number) => 440 * Math.pow(2, (midi - 69) / 12);
+
+// Build a manifest from file names when a pack comes without one
+function manifestFromFileNames(names: string[]): SampleManifest {
+  const samples: ManifestEntry[] = [];
+  const releases = new Map<string, string>();
+  for (const name of names) {
+    const match = name.match(FILE_PATTERN);
+    if (!match) continue;
+    const [, string, note, velocity, release] = match;
+    if (release) {
+      releases.set(`${string}-${note.toLowerCase()}`, name);
+    } else {
+      samples.push({ file: name, string: parseInt(string), note, velocity: velocity ? parseInt(velocity) : undefined });
+    }
+  }
+  for (const sample of samples) {
+    sample.release = releases.get(`${sample.string}-${sample.note.toLowerCase()}`);
+  }
+  return { samples };
+}
+
+async function buildPack(
+  context: BaseAudioContext,
+  name: string,
+  manifest: SampleManifest,
+  readFile: (file: string) => Promise<ArrayBuffer | null>
+): Promise<SamplePack> {
+  // decodeAudioData detaches its input, so hand it a copy and keep the stored bytes intact.
+  // A file that won't decode is skipped rather than failing the whole pack
+  const decode = async (file: string | undefined) => {
+    if (!file) return null;
+    try {
+      const data = await readFile(file);
+      return data ? await context.decodeAudioData(data.slice(0)) : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const zones: SampleZone[] = [];
+  for (const entry of manifest.samples) {
+    const note = parseNote(entry.note);
+    const buffer = note ? await decode(entry.file) : null;
+    if (!note || !buffer) {
+      console.warn(`Skipping sample ${entry.file}: unreadable note or audio`);
+      continue;
+    }
+    const rootMidi = noteToMidi(note);
+    zones.push({
+      course: entry.string ? entry.string - 1 : null,
+      rootMidi,
+      rootFrequency: entry.frequency ?? recordedFrequency(rootMidi),
+      maxVelocity: entry.velocity ?? 127,
+      buffer,
+      release: await decode(entry.release),
+    });
+  }
+  return { name: manifest.name ?? name, zones };
+}
+
+async function packFromFiles(context: BaseAudioContext, name: string, files: StoredSampleFile[]): Promise<SamplePack> {
+  const byName = new Map(files.map(f => [f.name, f.data]));
+  const manifestData = byName.get(MANIFEST_FILE);
+  const manifest: SampleManifest = manifestData
+    ? JSON.parse(new TextDecoder().decode(manifestData))
+    : manifestFromFileNames(files.map(f => f.name));
+  return buildPack(context, name, manifest, async file => byName.get(file) ?? null);
+}
+
+class SampleLibrary {
+  private pack: SamplePack | null = null;
+  private loading: Promise<void> | null = null;
+  private listeners = new Set<PackListener>();
+
+  onChange(listener: PackListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getPack(): SamplePack | null {
+    return this.pack;
+  }
+
+  isLoading(): boolean {
+    return this.loading !== null;
+  }
+
+  // Load the user's stored pack, if there is one; runs once
+  ensureLoaded(context: BaseAudioContext): Promise<void> {
+    if (this.pack) return Promise.resolve();
+    this.loading ??= (async () => {
+      try {
+        const stored = await loadUserPack();
+        const pack = stored ? await packFromFiles(context, stored.name, stored.files) : null;
+        // An import that finished meanwhile is newer than what was stored
+        if (pack && !this.pack) this.setPack(pack);
+      } catch (e) {
+        console.warn('Failed to load samples:', e);
+      } finally {
+        this.loading = null;
+      }
+    })();
+    return this.loading;
+  }
+
+  // Decode files picked from disk and keep them for next time; throws if none are usable
+  async importFiles(context: BaseAudioContext, files: File[]): Promise<SamplePack> {
+    // A stored pack still loading would otherwise land on top of this one
+    await this.loading;
+    const stored: StoredSampleFile[] = await Promise.all(
+      files.map(async file => ({ name: file.name, data: await file.arrayBuffer() }))
+    );
+    const name = files.length > 0 ? files[0].webkitRelativePath.split('/')[0] || 'My samples' : 'My samples';
+    const pack = await packFromFiles(context, name, stored);
+    if (pack.zones.length === 0) throw new Error('No samples found. Name files like 2-A2.wav or include a manifest.json');
+    await saveUserPack({ name: pack.name, files: stored });
+    this.setPack(pack);
+    return pack;
+  }
+
+  // Forget the user's pack, once any load of it has finished
+  async removeUserPack(): Promise<void> {
+    await this.loading;
+    await deleteUserPack();
+    this.setPack(null);
+  }
+
+  // Sample for a note: the nearest recorded pitch on the same course, then the layer
+  // whose velocity range covers the request
+  findZone(midi: number, velocity: number, course?: number): SampleZone | null {
+    if (!this.pack || this.pack.zones.length === 0) return null;
+    const zones = this.pack.zones;
+    let candidates = zones.filter(z => course !== undefined && z.course === course);
+    if (candidates.length === 0) candidates = zones.filter(z => z.course === null);
+    if (candidates.length === 0) candidates = zones;
+
+    const nearest = candidates.reduce((best, z) =>
+      Math.abs(z.rootMidi - midi) < Math.abs(best.rootMidi - midi) ? z : best
+    );
+    const layers = candidates
+      .filter(z => z.rootMidi === nearest.rootMidi && z.course === nearest.course)
+      .sort((a, b) => a.maxVelocity - b.maxVelocity);
+    const wanted = velocity * 127;
+    return layers.find(z => z.maxVelocity >= wanted) ?? layers[layers.length - 1];
+  }
+
+  private setPack(pack: SamplePack | null): void {
+    this.pack = pack;
+    this.listeners.forEach(listener => listener(pack));
+  }
+}
+
+// Export singleton instance
+export const sampleLibrary = new SampleLibrary();
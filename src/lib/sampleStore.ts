@@ -0,0 +1,51 @@
+// IndexedDB persistence for a user's sample pack, so it keeps working offline
+
+const DB_NAME = 'oud-note-trainer-samples';
+const STORE_NAME = 'packs';
+// One user pack at a time; loading another replaces it
+const USER_PACK_KEY = 'user';
+
+export interface StoredSampleFile {
+  name: string;
+  data: ArrayBuffer;
+}
+
+export interface StoredSamplePack {
+  name: string;
+  files: StoredSampleFile[];
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function loadUserPack(): Promise<StoredSamplePack | null> {
+  if (typeof indexedDB === 'undefined') return null;
+  return (await withStore<StoredSamplePack | undefined>('readonly', store => store.get(USER_PACK_KEY))) ?? null;
+}
+
+export async function saveUserPack(pack: StoredSamplePack): Promise<void> {
+  await withStore('readwrite', store => store.put(pack, USER_PACK_KEY));
+}
+
+export async function deleteUserPack(): Promise<void> {
+  await withStore('readwrite', store => store.delete(USER_PACK_KEY));
+}
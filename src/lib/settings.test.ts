@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, getMicPitchGrid } from './settings';
+
+describe('getMicPitchGrid', () => {
+  it('widens a semitone grid to quarter tones when quarter tones are drilled', () => {
+    expect(getMicPitchGrid({ ...DEFAULT_SETTINGS, pitchGrid: '12-tet', includeQuarterTones: true })).toBe('24-tet');
+    expect(getMicPitchGrid({ ...DEFAULT_SETTINGS, pitchGrid: '12-tet', includeQuarterTones: false })).toBe('12-tet');
+  });
+
+  it('keeps a finer grid as it is', () => {
+    expect(getMicPitchGrid({ ...DEFAULT_SETTINGS, pitchGrid: '53-comma', includeQuarterTones: true })).toBe('53-comma');
+  });
+});
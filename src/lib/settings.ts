@@ -1,23 +1,62 @@
 // Settings management with localStorage persistence
 
-import { Note, NotationSystem, parseNote } from './noteUtils';
+import { Note, NotationSystem, PitchGrid, DEFAULT_REFERENCE_PITCH, noteToMidi, parseNote, setReferencePitch, setTuning } from './noteUtils';
+import { AccidentalStyle } from './accidentals';
+import { TuningId, getTuningTable } from './tuning';
+import { KeySignatureId } from './keySignatures';
+import { ClefId, DEFAULT_CLEF_ID } from './clefs';
+import { NoteValue, TimeSignatureId } from './rhythm';
+import { AccentLevel } from './metronome';
+import { IqaId } from './iqaPlayer';
+import { PitchAlgorithm } from './pitchAlgorithms';
+import { InstrumentVoice } from './audioEngine';
 
 export interface StringConfig {
   openNote: Note;
   courseCount: number; // Number of sub-strings (1 for single, 2 for double course)
+  octaveNote?: Note; // Second string of an octave-pair course, when it differs from openNote
 }
 
 export interface Settings {
   stringCount: number;
   notationSystem: NotationSystem;
+  accidentalStyle: AccidentalStyle;
   strings: StringConfig[];
   lowestNote: Note;
   highestNote: Note;
   notesPerLine: number;
   includeAccidentals: boolean;
+  includeQuarterTones: boolean;
+  keySignatureId: KeySignatureId;
+  clefId: ClefId;
+  transposition: number; // Octaves written above sounding pitch
+  rhythmEnabled: boolean;
+  timeSignatureId: TimeSignatureId;
+  noteValues: NoteValue[];
+  includeDotted: boolean;
+  includeRests: boolean;
+  tempoBpm: number; // Beats of the time signature's beat unit per minute
+  timingToleranceMs: number;
+  metronomeAccents: AccentLevel[] | null; // null follows the time signature
+  metronomeSubdivision: number;
+  countInBars: number;
+  iqaId: IqaId;
+  iqaFills: boolean;
   avoidRepetition: boolean;
+  earReferenceTone: boolean; // Ear training: sound the lowest note of the range before each target
+  earIntervalAnswers: boolean; // Ear training: answer with the interval above the reference
+  flashcardOctave: boolean; // Name-the-note answers include the octave
+  instrumentVoice: InstrumentVoice;
   micDebounceMs: number;
-  repeatNoteBufferMs: number;
+  micScoreWrongNotes: boolean;
+  micGraceMs: number; // Mismatches this soon after a new target are ignored
+  micIgnoreOpenStrings: boolean;
+  intonationToleranceCents: number; // Mic notes within this of the target count as in tune
+  pitchGrid: PitchGrid;
+  pitchAlgorithm: PitchAlgorithm;
+  referencePitch: number; // A4 in Hz
+  tuningId: TuningId;
+  customTuningCents: Partial<Record<string, number>>; // Cents above C per pitch class
 }
 
 // Default tuning (low to high pitch, top to bottom on the oud)
@@ -33,14 +72,43 @@ const DEFAULT_STRINGS: StringConfig[] = [
 export const DEFAULT_SETTINGS: Settings = {
   stringCount: 6,
   notationSystem: 'solfege',
+  accidentalStyle: 'arabic',
   strings: DEFAULT_STRINGS,
   lowestNote: { letter: 'G', accidental: '', octave: 2 },
   highestNote: { letter: 'G', accidental: '', octave: 4 },
   notesPerLine: 4,
   includeAccidentals: false,
+  includeQuarterTones: false,
+  keySignatureId: 'c-major',
+  clefId: DEFAULT_CLEF_ID,
+  transposition: 0,
+  rhythmEnabled: false,
+  timeSignatureId: '4/4',
+  noteValues: ['half', 'quarter', 'eighth'],
+  includeDotted: false,
+  includeRests: false,
+  tempoBpm: 72,
+  timingToleranceMs: 120,
+  metronomeAccents: null,
+  metronomeSubdivision: 1,
+  countInBars: 1,
+  iqaId: 'maqsum',
+  iqaFills: false,
   avoidRepetition: true,
+  earReferenceTone: true,
+  earIntervalAnswers: false,
+  flashcardOctave: false,
+  instrumentVoice: 'oud',
   micDebounceMs: 250,
-  repeatNoteBufferMs: 1000,
+  micScoreWrongNotes: true,
+  micGraceMs: 300,
+  micIgnoreOpenStrings: false,
+  intonationToleranceCents: 15,
+  pitchGrid: '12-tet',
+  pitchAlgorithm: 'yin',
+  referencePitch: DEFAULT_REFERENCE_PITCH,
+  tuningId: '12-tet',
+  customTuningCents: {},
 };
 
 const STORAGE_KEY = 'oud-note-trainer-settings';
@@ -73,26 +141,52 @@ export function saveSettings(settings: Settings): void {
   }
 }
 
+// Grid the mic judges on: semitones can't tell a half-flat target from its neighbours,
+// so quarter-tone practice listens on at least the 24-TET grid
+export function getMicPitchGrid(settings: Settings): PitchGrid {
+  return settings.includeQuarterTones && settings.pitchGrid === '12-tet' ? '24-tet' : settings.pitchGrid;
+}
+
+// Share the reference pitch and tuning table with the synthesizer and the mic detector
+export function applyTuningSettings(settings: Settings): void {
+  setReferencePitch(settings.referencePitch);
+  setTuning(getTuningTable(settings.tuningId, settings.customTuningCents));
+}
+
 // Validate that lowest < highest
 export function validateNoteRange(lowest: Note, highest: Note): boolean {
-  const lowMidi = (lowest.octave + 1) * 12 + 
-    ({ C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 }[lowest.letter] || 0);
-  const highMidi = (highest.octave + 1) * 12 + 
-    ({ C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 }[highest.letter] || 0);
-  return lowMidi < highMidi;
+  return noteToMidi(lowest) < noteToMidi(highest);
+}
+
+// Spelling of the twelve semitones in dropdowns, flats where oud tunings usually write them
+const CHROMATIC_SPELLINGS: Pick<Note, 'letter' | 'accidental'>[] = [
+  { letter: 'C', accidental: '' },
+  { letter: 'C', accidental: '#' },
+  { letter: 'D', accidental: '' },
+  { letter: 'E', accidental: 'b' },
+  { letter: 'E', accidental: '' },
+  { letter: 'F', accidental: '' },
+  { letter: 'F', accidental: '#' },
+  { letter: 'G', accidental: '' },
+  { letter: 'A', accidental: 'b' },
+  { letter: 'A', accidental: '' },
+  { letter: 'B', accidental: 'b' },
+  { letter: 'B', accidental: '' },
+];
+
+// Key of a note in the dropdowns, e.g. 'Bb2'
+export function noteKey(note: Note): string {
+  return `${note.letter}${note.accidental}${note.octave}`;
 }
 
-// Get all available notes for dropdowns
+// Get all available notes for dropdowns, chromatically from C1 to B6
 export function getAllNotes(): { note: Note; display: string }[] {
   const notes: { note: Note; display: string }[] = [];
-  const letters: Array<'C' | 'D' | 'E' | 'F' | 'G' | 'A' | 'B'> = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
   
   for (let octave = 1; octave <= 6; octave++) {
-    for (const letter of letters) {
-      notes.push({
-        note: { letter, accidental: '', octave },
-        display: `${letter}${octave}`,
-      });
+    for (const { letter, accidental } of CHROMATIC_SPELLINGS) {
+      const note: Note = { letter, accidental, octave };
+      notes.push({ note, display: noteKey(note) });
     }
   }
   
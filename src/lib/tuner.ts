@@ -0,0 +1,86 @@
+// Tuner targets and reading analysis for the chromatic tuner view
+
+import { Note, noteToFrequency } from './noteUtils';
+import type { StringConfig } from './settings';
+import type { PitchReading } from './micPitchDetector';
+
+// One physical string to tune; a double course yields two targets
+export interface TuningTarget {
+  course: number; // Index into settings.strings
+  string: number; // 0 or 1 within the course
+  note: Note;
+}
+
+export type Stability = 'steady' | 'settling' | 'unstable';
+
+// Within this many cents the string counts as in tune
+export const IN_TUNE_CENTS = 5;
+// Readings older than this are dropped from the stability window
+const STABILITY_WINDOW_MS = 600;
+
+export function getTuningTargets(strings: StringConfig[]): TuningTarget[] {
+  return strings.flatMap((config, course) =>
+    Array.from({ length: Math.max(1, config.courseCount) }, (_, string) => ({
+      course,
+      string,
+      note: string === 1 && config.octaveNote ? config.octaveNote : config.openNote,
+    }))
+  );
+}
+
+// Cents from a target note as tuned by the active tuning table
+export function centsFromTarget(frequency: number, note: Note): number {
+  return 1200 * Math.log2(frequency / noteToFrequency(note));
+}
+
+// Target whose pitch is closest to the reading, octaves included
+export function nearestTarget(frequency: number, targets: TuningTarget[]): TuningTarget | null {
+  let best: TuningTarget | null = null;
+  let bestDistance = Infinity;
+  for (const target of targets) {
+    const distance = Math.abs(centsFromTarget(frequency, target.note));
+    if (distance < bestDistance) {
+      best = target;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+// Recent readings, for smoothing the needle and judging how steady the pitch is
+export class ReadingWindow {
+  private readings: PitchReading[] = [];
+
+  push(reading: PitchReading): void {
+    this.readings.push(reading);
+    const cutoff = reading.time - STABILITY_WINDOW_MS;
+    while (this.readings.length > 0 && this.readings[0].time < cutoff) this.readings.shift();
+  }
+
+  clear(): void {
+    this.readings = [];
+  }
+
+  // Median frequency, which shrugs off the odd octave slip
+  frequency(): number | null {
+    if (this.readings.length === 0) return null;
+    const sorted = this.readings.map(r => r.frequency).sort((a, b) => a - b);
+    return sorted[sorted.length >> 1];
+  }
+
+  // Standard deviation of the window in cents around its median
+  spreadCents(): number {
+    const median = this.frequency();
+    if (median === null || this.readings.length < 3) return Infinity;
+    const cents = this.readings.map(r => 1200 * Math.log2(r.frequency / median));
+    const mean = cents.reduce((sum, c) => sum + c, 0) / cents.length;
+    return Math.sqrt(cents.reduce((sum, c) => sum + (c - mean) * (c - mean), 0) / cents.length);
+  }
+
+  stability(): Stability {
+    const spread = this.spreadCents();
+    if (spread <= 2) return 'steady';
+    if (spread <= 8) return 'settling';
+    return 'unstable';
+  }
+}
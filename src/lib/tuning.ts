@@ -0,0 +1,116 @@
+// Tuning tables: cents above C for each spelled pitch class
+
+import { Accidental, Note, NoteLetter, midiToNote } from './noteUtils';
+
+export type TuningId = '12-tet' | '24-tet' | 'pythagorean' | 'arabic-53' | 'custom';
+
+export interface TuningTable {
+  id: TuningId;
+  name: string;
+  // Keyed by letter + accidental (e.g. 'E', 'Ehb', 'Bb'). Missing spellings fall back to
+  // the midpoint of their neighbours (quarter tones), an enharmonic entry, or equal temperament.
+  cents: Partial<Record<string, number>>;
+}
+
+const LETTERS: NoteLetter[] = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+
+// Position of each natural on the line of fifths, counted from C
+const FIFTHS_FROM_C: Record<NoteLetter, number> = { F: -1, C: 0, G: 1, D: 2, A: 3, E: 4, B: 5 };
+
+// Whole tones are 9 commas and diatonic semitones 4 commas on the 53-comma octave
+const COMMAS_FROM_C: Record<NoteLetter, number> = { C: 0, D: 9, E: 18, F: 22, G: 31, A: 40, B: 49 };
+
+// Key used by tuning tables for a note's pitch class
+export function pitchClassKey(note: Pick<Note, 'letter' | 'accidental'>): string {
+  return `${note.letter}${note.accidental}`;
+}
+
+// The 24 quarter-tone pitch classes in their default spelling, from C upwards
+export const TUNING_PITCH_CLASSES: Pick<Note, 'letter' | 'accidental'>[] = Array.from(
+  { length: 24 },
+  (_, i) => {
+    const { letter, accidental } = midiToNote(60 + i / 2);
+    return { letter, accidental };
+  }
+);
+
+function buildTable(
+  letterCents: (letter: NoteLetter) => number,
+  accidentals: { accidental: Accidental; cents: number }[]
+): Partial<Record<string, number>> {
+  const cents: Partial<Record<string, number>> = {};
+  for (const letter of LETTERS) {
+    for (const { accidental, cents: offset } of accidentals) {
+      cents[`${letter}${accidental}`] = letterCents(letter) + offset;
+    }
+  }
+  return cents;
+}
+
+const EQUAL_TEMPERED_CENTS: Record<NoteLetter, number> = { C: 0, D: 200, E: 400, F: 500, G: 700, A: 900, B: 1100 };
+const equalTemperedLetter = (letter: NoteLetter) => EQUAL_TEMPERED_CENTS[letter];
+
+const PYTHAGOREAN_FIFTH = 1200 * Math.log2(3 / 2);
+const PYTHAGOREAN_APOTOME = 7 * PYTHAGOREAN_FIFTH - 4 * 1200;
+const COMMA = 1200 / 53;
+
+export const BUILT_IN_TUNINGS: Record<Exclude<TuningId, 'custom'>, TuningTable> = {
+  '12-tet': {
+    id: '12-tet',
+    name: '12-TET (equal temperament)',
+    cents: buildTable(equalTemperedLetter, [
+      { accidental: '', cents: 0 },
+      { accidental: '#', cents: 100 },
+      { accidental: 'b', cents: -100 },
+    ]),
+  },
+  '24-tet': {
+    id: '24-tet',
+    name: '24-TET (equal quarter tones)',
+    cents: buildTable(equalTemperedLetter, [
+      { accidental: '', cents: 0 },
+      { accidental: '#', cents: 100 },
+      { accidental: 'b', cents: -100 },
+      { accidental: 'h#', cents: 50 },
+      { accidental: 'hb', cents: -50 },
+    ]),
+  },
+  'pythagorean': {
+    id: 'pythagorean',
+    name: 'Pythagorean (pure fifths)',
+    cents: buildTable(
+      letter => {
+        const cents = FIFTHS_FROM_C[letter] * PYTHAGOREAN_FIFTH;
+        return cents - Math.floor(cents / 1200) * 1200;
+      },
+      [
+        { accidental: '', cents: 0 },
+        { accidental: '#', cents: PYTHAGOREAN_APOTOME },
+        { accidental: 'b', cents: -PYTHAGOREAN_APOTOME },
+      ]
+    ),
+  },
+  'arabic-53': {
+    id: 'arabic-53',
+    name: '53-comma (Arabic/Turkish)',
+    cents: buildTable(letter => COMMAS_FROM_C[letter] * COMMA, [
+      { accidental: '', cents: 0 },
+      { accidental: '#', cents: 5 * COMMA },
+      { accidental: 'b', cents: -5 * COMMA },
+      { accidental: 'h#', cents: 2 * COMMA },
+      { accidental: 'hb', cents: -2 * COMMA },
+    ]),
+  },
+};
+
+// Table for a tuning setting; the custom table overrides quarter-tone equal temperament
+export function getTuningTable(id: TuningId, customCents: Partial<Record<string, number>> = {}): TuningTable {
+  if (id === 'custom') {
+    return {
+      id: 'custom',
+      name: 'Custom',
+      cents: { ...BUILT_IN_TUNINGS['24-tet'].cents, ...customCents },
+    };
+  }
+  return BUILT_IN_TUNINGS[id] ?? BUILT_IN_TUNINGS['12-tet'];
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { TUNING_PRESETS, findTuningPreset, getTuningPreset, matchTuning } from './tuningPresets';
+import { midiToFrequency, noteToMidi } from './noteUtils';
+import type { StringConfig } from './settings';
+
+const frequencies = (strings: StringConfig[], centsOff = 0) =>
+  strings.map(s => midiToFrequency(noteToMidi(s.openNote) + centsOff / 100));
+
+describe('matchTuning', () => {
+  it('recognises every preset from its open courses', () => {
+    for (const preset of TUNING_PRESETS) {
+      const counts = preset.strings.map(s => s.courseCount);
+      expect(matchTuning(frequencies(preset.strings), counts).preset?.id).toBe(preset.id);
+    }
+  });
+
+  it('reports how far each course is from the preset', () => {
+    const arabic = getTuningPreset('arabic')!;
+    const match = matchTuning(frequencies(arabic.strings, -12), arabic.strings.map(s => s.courseCount));
+    expect(match.preset?.id).toBe('arabic');
+    match.centsOff.forEach(c => expect(c).toBeCloseTo(-12));
+  });
+
+  it('keeps the preset octave-pair bass', () => {
+    const sixCourse = getTuningPreset('six-course')!;
+    const match = matchTuning(frequencies(sixCourse.strings), sixCourse.strings.map(s => s.courseCount));
+    expect(match.strings[0].octaveNote).toEqual({ letter: 'B', accidental: 'b', octave: 2 });
+  });
+
+  it('proposes a custom tuning spelled with flats when no preset fits', () => {
+    const measured = [46, 51, 57, 62, 67, 72].map(midiToFrequency);
+    const match = matchTuning(measured, [1, 2, 2, 2, 2, 2]);
+    expect(match.preset).toBeNull();
+    expect(match.strings.map(s => `${s.openNote.letter}${s.openNote.accidental}${s.openNote.octave}`)).toEqual([
+      'Bb2', 'Eb3', 'A3', 'D4', 'G4', 'C5',
+    ]);
+    expect(match.strings.map(s => s.courseCount)).toEqual([1, 2, 2, 2, 2, 2]);
+  });
+});
+
+describe('findTuningPreset', () => {
+  it('matches presets exactly, including the bass course', () => {
+    const sixCourse = getTuningPreset('six-course')!;
+    expect(findTuningPreset(sixCourse.strings)?.id).toBe('six-course');
+    const withoutOctave = sixCourse.strings.map((s, i) => (i === 0 ? { openNote: s.openNote, courseCount: 2 } : s));
+    expect(findTuningPreset(withoutOctave)).toBeUndefined();
+  });
+
+  it('includes tunings with B♭ and E♭ courses', () => {
+    const flats = TUNING_PRESETS.flatMap(p => p.strings).filter(s => s.openNote.accidental === 'b');
+    expect(flats.map(s => s.openNote.letter)).toEqual(expect.arrayContaining(['B', 'E']));
+  });
+});
@@ -0,0 +1,131 @@
+// Known oud tunings and matching measured open strings against them
+
+import { Note, NoteLetter, frequencyToMidi, midiToNote, notesEqual } from './noteUtils';
+import { getKeySignature } from './keySignatures';
+import { centsFromTarget } from './tuner';
+import type { StringConfig } from './settings';
+
+export type TuningPresetId =
+  | 'arabic'
+  | 'arabic-low-c'
+  | 'turkish'
+  | 'iraqi'
+  | 'five-course'
+  | 'six-course'
+  | 'seven-course';
+
+export interface TuningPreset {
+  id: TuningPresetId;
+  name: string;
+  strings: StringConfig[]; // Top (lowest) course first, as in settings
+}
+
+// A measured tuning: the preset it resembles, or null for a custom tuning
+export interface TuningMatch {
+  preset: TuningPreset | null;
+  strings: StringConfig[];
+  centsOff: number[]; // Per course, measured minus the proposed note
+}
+
+// Every course must land within this of a preset's note for the preset to be proposed
+const PRESET_TOLERANCE_CENTS = 60;
+
+const n = (letter: NoteLetter, octave: number, accidental: Note['accidental'] = ''): Note => ({ letter, accidental, octave });
+
+const single = (openNote: Note): StringConfig => ({ openNote, courseCount: 1 });
+const double = (openNote: Note): StringConfig => ({ openNote, courseCount: 2 });
+// Bass course strung with its second string an octave higher
+const octavePair = (openNote: Note): StringConfig => ({
+  openNote,
+  courseCount: 2,
+  octaveNote: { ...openNote, octave: openNote.octave + 1 },
+});
+
+// The bass course is often retuned to the maqam's tonic, as the 6- and 7-course presets show
+export const TUNING_PRESETS: TuningPreset[] = [
+  {
+    id: 'arabic',
+    name: 'Arabic standard',
+    strings: [single(n('D', 2)), double(n('G', 2)), double(n('A', 2)), double(n('D', 3)), double(n('G', 3)), double(n('C', 4))],
+  },
+  {
+    id: 'arabic-low-c',
+    name: 'Arabic with low C',
+    strings: [single(n('C', 2)), double(n('F', 2)), double(n('A', 2)), double(n('D', 3)), double(n('G', 3)), double(n('C', 4))],
+  },
+  {
+    id: 'turkish',
+    name: 'Turkish',
+    strings: [single(n('E', 2)), double(n('A', 2)), double(n('B', 2)), double(n('E', 3)), double(n('A', 3)), double(n('D', 4))],
+  },
+  {
+    id: 'iraqi',
+    name: 'Iraqi (Munir Bashir)',
+    strings: [single(n('F', 2)), double(n('A', 2)), double(n('D', 3)), double(n('G', 3)), double(n('C', 4)), double(n('F', 4))],
+  },
+  {
+    id: 'five-course',
+    name: '5-course',
+    strings: [double(n('G', 2)), double(n('A', 2)), double(n('D', 3)), double(n('G', 3)), double(n('C', 4))],
+  },
+  {
+    id: 'six-course',
+    name: '6-course, B♭ octave bass',
+    strings: [octavePair(n('B', 1, 'b')), double(n('F', 2)), double(n('A', 2)), double(n('D', 3)), double(n('G', 3)), double(n('C', 4))],
+  },
+  {
+    id: 'seven-course',
+    name: '7-course, E♭ bass',
+    strings: [
+      octavePair(n('E', 2, 'b')),
+      double(n('F', 2)),
+      double(n('A', 2)),
+      double(n('D', 3)),
+      double(n('G', 3)),
+      double(n('C', 4)),
+      double(n('F', 4)),
+    ],
+  },
+];
+
+export function getTuningPreset(id: TuningPresetId): TuningPreset | undefined {
+  return TUNING_PRESETS.find(p => p.id === id);
+}
+
+function coursesEqual(a: StringConfig, b: StringConfig): boolean {
+  if (!notesEqual(a.openNote, b.openNote) || a.courseCount !== b.courseCount) return false;
+  if (!a.octaveNote || !b.octaveNote) return !a.octaveNote && !b.octaveNote;
+  return notesEqual(a.octaveNote, b.octaveNote);
+}
+
+// The preset the strings are set to exactly, if any
+export function findTuningPreset(strings: StringConfig[]): TuningPreset | undefined {
+  return TUNING_PRESETS.find(
+    preset => preset.strings.length === strings.length && preset.strings.every((s, i) => coursesEqual(s, strings[i]))
+  );
+}
+
+// Open strings are spelled with flats, as oud tunings are usually written (B♭, E♭)
+const FLAT_SPELLING = getKeySignature('eb-major');
+
+// Propose the closest preset for the measured open courses (top course first), or
+// failing that a custom tuning from the nearest semitones with the given course counts
+export function matchTuning(frequencies: number[], courseCounts: number[]): TuningMatch {
+  let best: { preset: TuningPreset; centsOff: number[]; mean: number } | null = null;
+  for (const preset of TUNING_PRESETS) {
+    if (preset.strings.length !== frequencies.length) continue;
+    const centsOff = frequencies.map((f, i) => centsFromTarget(f, preset.strings[i].openNote));
+    if (centsOff.some(c => Math.abs(c) > PRESET_TOLERANCE_CENTS)) continue;
+    const mean = centsOff.reduce((sum, c) => sum + Math.abs(c), 0) / centsOff.length;
+    if (!best || mean < best.mean) best = { preset, centsOff, mean };
+  }
+  if (best) {
+    return { preset: best.preset, strings: best.preset.strings.map(s => ({ ...s })), centsOff: best.centsOff };
+  }
+
+  const strings = frequencies.map((f, i) => ({
+    openNote: midiToNote(Math.round(frequencyToMidi(f)), FLAT_SPELLING),
+    courseCount: courseCounts[i] ?? 2,
+  }));
+  return { preset: null, strings, centsOff: frequencies.map((f, i) => centsFromTarget(f, strings[i].openNote)) };
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { MusicStaff } from '@/components/MusicStaff';
 import { MusicStaffCompact } from '@/components/MusicStaffCompact';
 import { OudVisualization } from '@/components/OudVisualization';
@@ -6,25 +6,50 @@ import { OudVisualizationCompact } from '@/components/OudVisualizationCompact';
 import { SettingsPanel } from '@/components/SettingsPanel';
 import { MicLevelIndicator } from '@/components/MicLevelIndicator';
 import { InstallPrompt } from '@/components/InstallPrompt';
-import { Settings, loadSettings, saveSettings } from '@/lib/settings';
-import { Note, notesEqual, randomNoteInRange, noteToMidi } from '@/lib/noteUtils';
+import { BeatIndicator } from '@/components/BeatIndicator';
+import { IqaTimeline } from '@/components/IqaTimeline';
+import { Tuner } from '@/components/Tuner';
+import { EarTraining } from '@/components/EarTraining';
+import { NameFlashcards } from '@/components/NameFlashcards';
+import { Settings, loadSettings, saveSettings, applyTuningSettings, getMicPitchGrid } from '@/lib/settings';
+import { Note, notesEqual, randomNoteInRange, noteToMidi, midiToNote, formatNote, pitchMatchesNote } from '@/lib/noteUtils';
+import { getKeySignature } from '@/lib/keySignatures';
+import { getClef } from '@/lib/clefs';
+import { RhythmEvent, getTimeSignature, randomMeasure, measureBeats, quarterNoteMs } from '@/lib/rhythm';
 import { audioEngine } from '@/lib/audioEngine';
-import { Music, Volume2, VolumeX, Smartphone, Mic, MicOff } from 'lucide-react';
+import { metronome, defaultAccentPattern } from '@/lib/metronome';
+import { iqaPlayer, getIqa } from '@/lib/iqaPlayer';
+import { Music, Volume2, VolumeX, Smartphone, Mic, MicOff, Timer, Drum, Gauge, ArrowUp, ArrowDown, Ear, Layers } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable';
-import { startListening, stopListening } from '@/lib/micPitchDetector';
+import { startListening, stopListening, setPitchGrid, setPitchAlgorithm, DetectedNote } from '@/lib/micPitchDetector';
+import { judgeMicNote, confirmWrongNote } from '@/lib/micJudging';
+import { IntonationResult, judgeIntonation } from '@/lib/intonation';
+import { EMPTY_FLASHCARD_STATS, FlashcardStats, recordFlashcardAnswer } from '@/lib/flashcards';
 
 interface TargetNote {
   note: Note;
   status: 'pending' | 'correct' | 'incorrect';
   isNew?: boolean;
   uid: string;
+  rhythm?: RhythmEvent;
+  intonation?: IntonationResult; // Mic attempts only
 }
 
+type TimingVerdict = 'early' | 'on-time' | 'late';
+
+// 'ear' hides the staff and plays each target for the student to recognise;
+// 'names' swaps the oud for an answer pad to name the note on the staff
+type View = 'practice' | 'ear' | 'names' | 'tuner';
+
 function Index() {
-  const [settings, setSettings] = useState<Settings>(loadSettings);
+  const [settings, setSettings] = useState<Settings>(() => {
+    const loaded = loadSettings();
+    applyTuningSettings(loaded);
+    return loaded;
+  });
   const [targetNotes, setTargetNotes] = useState<TargetNote[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [score, setScore] = useState({ correct: 0, incorrect: 0 });
@@ -32,53 +57,167 @@ function Index() {
   const [isLandscapeMode, setIsLandscapeMode] = useState(false);
   const [lastPlayedNote, setLastPlayedNote] = useState<Note | null>(null);
   const [isListening, setIsListening] = useState(false);
-  const [liveDetectedNote, setLiveDetectedNote] = useState<Note | null>(null);
+  const [liveDetection, setLiveDetection] = useState<DetectedNote | null>(null);
   const [highlightNote, setHighlightNote] = useState<Note | null>(null);
-  const [lastSuccessTime, setLastSuccessTime] = useState<number | null>(null);
-  const [lastSuccessNote, setLastSuccessNote] = useState<Note | null>(null);
   const [wakeLock, setWakeLock] = useState<WakeLockSentinel | null>(null);
   const [micStatus, setMicStatus] = useState<'listening' | 'recovering' | 'error' | 'off'>('off');
   const [micLevel, setMicLevel] = useState(0);
+  const [timingScore, setTimingScore] = useState({ onTime: 0, early: 0, late: 0 });
+  const [lastTiming, setLastTiming] = useState<{ verdict: TimingVerdict; offsetMs: number } | null>(null);
+  const [intonationScore, setIntonationScore] = useState({ inTune: 0, attempts: 0 });
+  const [lastIntonation, setLastIntonation] = useState<IntonationResult | null>(null);
+  const [flashcardStats, setFlashcardStats] = useState<FlashcardStats>(EMPTY_FLASHCARD_STATS);
+  const [isMetronomeOn, setIsMetronomeOn] = useState(false);
+  const [isIqaPlaying, setIsIqaPlaying] = useState(false);
+  const [view, setView] = useState<View>('practice');
+  const [isDetectingTuning, setIsDetectingTuning] = useState(false);
+  // Upcoming rhythm of the current measure and the beat/time the student's pulse is anchored to
+  const rhythmQueueRef = useRef<RhythmEvent[]>([]);
+  const measureCounterRef = useRef(0);
+  const timingAnchorRef = useRef<{ time: number; beat: number } | null>(null);
+  // Mic judging: when the current target appeared, the detection last judged, and a wrong note awaiting confirmation
+  const targetShownAtRef = useRef(performance.now());
+  const judgedDetectionRef = useRef<DetectedNote | null>(null);
+  const cancelWrongNoteRef = useRef<(() => void) | null>(null);
+  const handleNotePlayedRef = useRef<(note: Note, playedAt?: number, isCorrect?: boolean) => void>(() => {});
+  const keySignature = getKeySignature(settings.keySignatureId);
+  // Mic detections are spelled in whatever key is current when they arrive
+  const keySignatureRef = useRef(keySignature);
+  keySignatureRef.current = keySignature;
+  const clef = getClef(settings.clefId);
+  const meter = getTimeSignature(settings.timeSignatureId);
+  const iqa = getIqa(settings.iqaId);
+  const timeSignature = settings.rhythmEnabled ? meter : undefined;
+  const metronomeAccents = useMemo(
+    () => settings.metronomeAccents?.length === meter.beats ? settings.metronomeAccents : defaultAccentPattern(meter),
+    [settings.metronomeAccents, meter]
+  );
+  const micGrid = getMicPitchGrid(settings);
+  const liveDetectedNote = liveDetection?.note ?? null;
+  const liveDetectionMatchesTarget = !!liveDetection && !!targetNotes[currentIndex] &&
+    pitchMatchesNote(liveDetection.midi, targetNotes[currentIndex].note, micGrid);
   
   // Initialize target notes
   useEffect(() => {
     generateNewNotes();
-  }, [settings.notesPerLine, settings.lowestNote, settings.highestNote, settings.includeAccidentals]);
+  }, [settings.notesPerLine, settings.lowestNote, settings.highestNote, settings.includeAccidentals, settings.includeQuarterTones, settings.keySignatureId, settings.rhythmEnabled, settings.timeSignatureId, settings.noteValues, settings.includeDotted, settings.includeRests]);
   
   // Save settings to localStorage
   useEffect(() => {
     saveSettings(settings);
   }, [settings]);
   
+  const createTargetNote = useCallback((previousNote: Note | undefined): TargetNote => {
+    const note = randomNoteInRange(
+      settings.lowestNote, 
+      settings.highestNote, 
+      settings.includeAccidentals,
+      settings.avoidRepetition,
+      previousNote,
+      settings.includeQuarterTones,
+      keySignature
+    );
+    
+    // In rhythm mode each target also takes the next slot of the current measure
+    let rhythm: RhythmEvent | undefined;
+    if (timeSignature) {
+      if (rhythmQueueRef.current.length === 0) {
+        rhythmQueueRef.current = randomMeasure(
+          timeSignature,
+          measureCounterRef.current++,
+          settings.noteValues,
+          settings.includeDotted,
+          settings.includeRests
+        );
+      }
+      rhythm = rhythmQueueRef.current.shift();
+    }
+    
+    return {
+      note,
+      status: 'pending',
+      uid: Math.random().toString(36).slice(2) + Date.now().toString(36),
+      rhythm,
+    };
+  }, [settings.lowestNote, settings.highestNote, settings.includeAccidentals, settings.avoidRepetition, settings.includeQuarterTones, keySignature, timeSignature, settings.noteValues, settings.includeDotted, settings.includeRests]);
+  
+  // Rests are never played, so scroll them off as soon as they reach the front
+  const skipLeadingRests = useCallback((notes: TargetNote[]): TargetNote[] => {
+    let result = notes;
+    while (result.length > 0 && result[0].rhythm?.isRest) {
+      const remaining = result.slice(1);
+      const lastNote = remaining.length > 0 ? remaining[remaining.length - 1].note : undefined;
+      result = [...remaining, { ...createTargetNote(lastNote), isNew: true }];
+    }
+    return result;
+  }, [createTargetNote]);
+  
   const generateNewNotes = useCallback(() => {
+    rhythmQueueRef.current = [];
+    measureCounterRef.current = 0;
+    timingAnchorRef.current = null;
+    
     const notes: TargetNote[] = [];
     let prevNote: Note | undefined = undefined;
     for (let i = 0; i < settings.notesPerLine; i++) {
-      const newNote = randomNoteInRange(
-        settings.lowestNote, 
-        settings.highestNote, 
-        settings.includeAccidentals,
-        settings.avoidRepetition,
-        prevNote
-      );
-      notes.push({
-        note: newNote,
-        status: 'pending',
-        uid: Math.random().toString(36).slice(2) + Date.now().toString(36),
-      });
-      prevNote = newNote;
+      const newTarget = createTargetNote(prevNote);
+      notes.push(newTarget);
+      prevNote = newTarget.note;
     }
-    setTargetNotes(notes);
+    setTargetNotes(skipLeadingRests(notes));
     setCurrentIndex(0);
-  }, [settings.notesPerLine, settings.lowestNote, settings.highestNote, settings.includeAccidentals, settings.avoidRepetition]);
+  }, [settings.notesPerLine, createTargetNote, skipLeadingRests]);
   
-  const handleNotePlayed = useCallback((playedNote: Note) => {
+  // Compare when a note was played against where the tempo says it should fall.
+  // The metronome's downbeat anchors the pulse while it runs; otherwise the first timed
+  // note does, and losing it by more than a bar re-anchors.
+  const judgeTiming = useCallback((rhythm: RhythmEvent, playedAt: number) => {
+    if (!timeSignature) return;
+    const msPerQuarter = quarterNoteMs(settings.tempoBpm, timeSignature);
+    const beat = rhythm.measure * measureBeats(timeSignature) + rhythm.onset;
+    const barMs = measureBeats(timeSignature) * msPerQuarter;
+    const downbeat = metronome.getDownbeatTime();
+    
+    // With the metronome running, snap this note's measure to the nearest bar it is clicking
+    if (!timingAnchorRef.current && downbeat !== null) {
+      const bar = Math.round((playedAt - rhythm.onset * msPerQuarter - downbeat) / barMs);
+      timingAnchorRef.current = { time: downbeat + bar * barMs, beat: rhythm.measure * measureBeats(timeSignature) };
+    }
+    const anchor = timingAnchorRef.current;
+    
+    if (anchor) {
+      const offsetMs = playedAt - (anchor.time + (beat - anchor.beat) * msPerQuarter);
+      if (downbeat !== null || Math.abs(offsetMs) <= barMs) {
+        const verdict: TimingVerdict = Math.abs(offsetMs) <= settings.timingToleranceMs
+          ? 'on-time'
+          : offsetMs < 0 ? 'early' : 'late';
+        setLastTiming({ verdict, offsetMs });
+        setTimingScore(prev => ({
+          onTime: prev.onTime + (verdict === 'on-time' ? 1 : 0),
+          early: prev.early + (verdict === 'early' ? 1 : 0),
+          late: prev.late + (verdict === 'late' ? 1 : 0),
+        }));
+        return;
+      }
+    }
+    
+    timingAnchorRef.current = { time: playedAt, beat };
+    setLastTiming(null);
+  }, [timeSignature, settings.tempoBpm, settings.timingToleranceMs]);
+  
+  // The mic judges on its own grid and passes its verdict; taps and answers compare exact pitches
+  const handleNotePlayed = useCallback((playedNote: Note, playedAt: number = performance.now(), judgedCorrect?: boolean) => {
     if (currentIndex >= targetNotes.length) return;
     
     const currentTargetNote = targetNotes[currentIndex];
-    const isCorrect = notesEqual(playedNote, currentTargetNote.note);
+    const isCorrect = judgedCorrect ?? notesEqual(playedNote, currentTargetNote.note);
     
     if (isCorrect) {
+      // Only playing from the staff is timed; answering by name or ear isn't played in rhythm
+      if (currentTargetNote.rhythm && view === 'practice') {
+        judgeTiming(currentTargetNote.rhythm, playedAt);
+      }
+      
       setTargetNotes(prev => {
         const updated = [...prev];
         updated[currentIndex] = { ...updated[currentIndex], status: 'correct' };
@@ -95,19 +234,8 @@ function Index() {
         setTargetNotes(prev => {
           const remaining = prev.slice(1);
           const lastNote = remaining.length > 0 ? remaining[remaining.length - 1].note : undefined;
-          const newNote: TargetNote = {
-            note: randomNoteInRange(
-              settings.lowestNote, 
-              settings.highestNote, 
-              settings.includeAccidentals,
-              settings.avoidRepetition,
-              lastNote
-            ),
-            status: 'pending',
-            isNew: true,
-            uid: Math.random().toString(36).slice(2) + Date.now().toString(36),
-          };
-          return [...remaining, newNote];
+          const newNote: TargetNote = { ...createTargetNote(lastNote), isNew: true };
+          return skipLeadingRests([...remaining, newNote]);
         });
         
         setTimeout(() => {
@@ -136,9 +264,77 @@ function Index() {
         });
       }, 400);
     }
-  }, [currentIndex, targetNotes, isMuted, settings.lowestNote, settings.highestNote, settings.includeAccidentals]);
+  }, [currentIndex, targetNotes, isMuted, createTargetNote, skipLeadingRests, judgeTiming, view]);
+  handleNotePlayedRef.current = handleNotePlayed;
+  
+  // Name-the-note answers also count towards the streak, response time and per-note statistics
+  const handleNameAnswer = useCallback((answer: Note) => {
+    const target = targetNotes[currentIndex];
+    if (!target || target.status !== 'pending') return;
+    const responseMs = performance.now() - targetShownAtRef.current;
+    setFlashcardStats(prev => recordFlashcardAnswer(prev, target.note, notesEqual(answer, target.note), responseMs));
+    handleNotePlayed(answer);
+  }, [targetNotes, currentIndex, handleNotePlayed]);
+  
+  // Start the grace window whenever a new target comes up
+  const currentTargetUid = targetNotes[currentIndex]?.uid;
+  useEffect(() => {
+    targetShownAtRef.current = performance.now();
+    cancelWrongNoteRef.current?.();
+    cancelWrongNoteRef.current = null;
+  }, [currentTargetUid]);
+  
+  // Keep the metronome in step with the settings; the old anchor no longer fits a new tempo
+  useEffect(() => {
+    metronome.configure({
+      bpm: settings.tempoBpm,
+      accents: metronomeAccents,
+      subdivision: settings.metronomeSubdivision,
+      countInBars: settings.countInBars,
+    });
+    timingAnchorRef.current = null;
+  }, [settings.tempoBpm, metronomeAccents, settings.metronomeSubdivision, settings.countInBars]);
+  
+  useEffect(() => {
+    iqaPlayer.configure({ iqa, bpm: settings.tempoBpm, fills: settings.iqaFills });
+  }, [iqa, settings.tempoBpm, settings.iqaFills]);
+  
+  useEffect(() => () => {
+    metronome.stop();
+    iqaPlayer.stop();
+    cancelWrongNoteRef.current?.();
+  }, []);
+  
+  const toggleIqa = () => {
+    if (isIqaPlaying) {
+      iqaPlayer.stop();
+      setIsIqaPlaying(false);
+      return;
+    }
+    iqaPlayer.start();
+    setIsIqaPlaying(true);
+  };
+  
+  const toggleMetronome = () => {
+    if (isMetronomeOn) {
+      metronome.stop();
+      setIsMetronomeOn(false);
+      timingAnchorRef.current = null;
+      return;
+    }
+    
+    // Line the current measure up with the first downbeat after the count-in
+    const downbeat = metronome.start();
+    const rhythm = targetNotes[currentIndex]?.rhythm;
+    if (timeSignature && rhythm) {
+      timingAnchorRef.current = { time: downbeat, beat: rhythm.measure * measureBeats(timeSignature) };
+    }
+    setIsMetronomeOn(true);
+  };
   
   const handleSettingsChange = useCallback((newSettings: Settings) => {
+    // Tune before rendering so playback, matching and Turkish accidentals agree
+    applyTuningSettings(newSettings);
     setSettings(newSettings);
   }, []);
   
@@ -151,48 +347,110 @@ function Index() {
   const handleReset = () => {
     generateNewNotes();
     setScore({ correct: 0, incorrect: 0 });
+    setTimingScore({ onTime: 0, early: 0, late: 0 });
+    setLastTiming(null);
+    setIntonationScore({ inTune: 0, attempts: 0 });
+    setLastIntonation(null);
+    setFlashcardStats(EMPTY_FLASHCARD_STATS);
     setLastPlayedNote(null);
-    setLiveDetectedNote(null);
+    setLiveDetection(null);
     setHighlightNote(null);
-    setLastSuccessTime(null);
-    setLastSuccessNote(null);
     toast.success('New practice session started!');
   };
 
+  const toggleTuner = () => {
+    setView(view === 'tuner' ? 'practice' : 'tuner');
+  };
+  
+  const toggleEarTraining = () => {
+    setView(view === 'ear' ? 'practice' : 'ear');
+  };
+  
+  const toggleNameFlashcards = () => {
+    setView(view === 'names' ? 'practice' : 'names');
+  };
+
   const toggleLandscapeMode = () => {
     setIsLandscapeMode(!isLandscapeMode);
     toast(isLandscapeMode ? 'Standard mode' : 'Landscape mode enabled');
   };
   
-  const onMicNote = useCallback((note: Note) => {
-    setLiveDetectedNote(note);
-    setLastPlayedNote(note);
-    setHighlightNote(note);
+  const onMicNote = useCallback((detection: DetectedNote) => {
+    // Spell what was heard the way the current key writes it
+    const spelled = { ...detection, note: midiToNote(detection.midi, keySignatureRef.current) };
+    setLiveDetection(spelled);
+    setLastPlayedNote(spelled.note);
+    setHighlightNote(spelled.note);
   }, []);
   
   useEffect(() => {
-    if (!liveDetectedNote || currentIndex >= targetNotes.length) return;
-    const targetNote = targetNotes[currentIndex].note;
+    // Tuning strings shouldn't score against the staff, nor later once the dialog closes
+    if (isDetectingTuning) {
+      judgedDetectionRef.current = liveDetection;
+      return;
+    }
+    if (!liveDetection || currentIndex >= targetNotes.length || view === 'tuner') return;
+    const liveDetectedNote = liveDetection.note;
     
-    // Only process if the current note is pending
-    if (targetNotes[currentIndex].status === 'pending' && notesEqual(liveDetectedNote, targetNote)) {
-      const now = Date.now();
-      
-      // Check if this is a repeated note scenario
-      if (lastSuccessNote && notesEqual(liveDetectedNote, lastSuccessNote) && lastSuccessTime) {
-        const elapsed = now - lastSuccessTime;
-        // If we haven't waited long enough, skip this detection
-        if (elapsed < settings.repeatNoteBufferMs) {
-          return;
-        }
-      }
+    // Only process if the current note is pending; compare on the detector's grid so
+    // quarter-tone and comma targets match their microtonal pitch. The detector emits
+    // one event per pluck, so a repeated target needs its own attack to count again
+    const target = targetNotes[currentIndex];
+    if (target.status !== 'pending' || judgedDetectionRef.current === liveDetection) return;
+    judgedDetectionRef.current = liveDetection;
+    
+    // A new pluck supersedes a wrong note still being confirmed
+    cancelWrongNoteRef.current?.();
+    cancelWrongNoteRef.current = null;
+    
+    const judgement = judgeMicNote(liveDetection, target.note, targetShownAtRef.current, {
+      graceMs: settings.micGraceMs,
+      ignoreOpenStrings: settings.micIgnoreOpenStrings,
+      strings: settings.strings.slice(0, settings.stringCount),
+      grid: micGrid,
+    });
+    
+    if (judgement.verdict === 'correct') {
+      handleNotePlayed(liveDetectedNote, liveDetection.onsetTs, true);
       
-      handleNotePlayed(liveDetectedNote);
-      setLastSuccessTime(now);
-      setLastSuccessNote(liveDetectedNote);
-      setLiveDetectedNote(null); // Consume the event to prevent re-triggering
+      // The right note can still be out of tune; score that on its own
+      const intonation = judgeIntonation(liveDetection, target.note, settings.intonationToleranceCents);
+      setTargetNotes(prev => prev.map((n, i) => (i === currentIndex ? { ...n, intonation } : n)));
+      setLastIntonation(intonation);
+      setIntonationScore(prev => ({
+        inTune: prev.inTune + (intonation.verdict === 'in-tune' ? 1 : 0),
+        attempts: prev.attempts + 1,
+      }));
+      setLiveDetection(null); // Consume the event to prevent re-triggering
+    } else if (judgement.verdict === 'wrong' && settings.micScoreWrongNotes) {
+      // Score it like a wrong tap once the pitch has held, so glitches drop out
+      const detection = liveDetection;
+      cancelWrongNoteRef.current = confirmWrongNote(detection, judgement.holdMs, () => {
+        cancelWrongNoteRef.current = null;
+        handleNotePlayedRef.current(detection.note, detection.onsetTs, false);
+      });
     }
-  }, [liveDetectedNote, currentIndex, targetNotes, handleNotePlayed, lastSuccessNote, lastSuccessTime, settings.repeatNoteBufferMs]);
+  }, [liveDetection, currentIndex, targetNotes, handleNotePlayed, view, settings.micGraceMs, settings.micIgnoreOpenStrings, settings.micScoreWrongNotes, settings.strings, settings.stringCount, micGrid, settings.intonationToleranceCents, isDetectingTuning]);
+  
+  // Open strings plucked for tuning detection aren't wrong notes either
+  useEffect(() => {
+    if (!isDetectingTuning) return;
+    cancelWrongNoteRef.current?.();
+    cancelWrongNoteRef.current = null;
+  }, [isDetectingTuning]);
+  
+  // Keep the detector's grid and algorithm in sync while listening
+  useEffect(() => {
+    setPitchGrid(micGrid);
+  }, [micGrid]);
+  
+  useEffect(() => {
+    setPitchAlgorithm(settings.pitchAlgorithm);
+  }, [settings.pitchAlgorithm]);
+  
+  useEffect(() => {
+    audioEngine.setVoice(settings.instrumentVoice);
+  }, [settings.instrumentVoice]);
   
   const onMicStatus = useCallback((status: 'listening' | 'recovering' | 'error', level: number) => {
     setMicStatus(status);
@@ -220,7 +478,9 @@ function Index() {
       await startListening(onMicNote, { 
         minStableMs: settings.micDebounceMs,
         onStatus: onMicStatus,
-        autoRecoveryTimeoutMs: 5000
+        autoRecoveryTimeoutMs: 5000,
+        grid: micGrid,
+        algorithm: settings.pitchAlgorithm,
       });
       setIsListening(true);
       setMicStatus('listening');
@@ -268,22 +528,101 @@ function Index() {
           <ResizablePanel defaultSize={30} minSize={20}>
             <header className="border-b border-border bg-card/50 backdrop-blur-sm flex h-full items-center justify-between px-2 py-1 gap-2">
               <div className="flex-1 min-w-0 max-w-[50%] h-full">
+                {view === 'ear' ? (
+                  <EarTraining
+                    settings={settings}
+                    keySignature={keySignature}
+                    target={targetNotes[currentIndex]}
+                    onAnswer={handleNotePlayed}
+                    compact
+                    className="h-full overflow-y-auto py-1"
+                  />
+                ) : (
                 <MusicStaffCompact 
                   targetNotes={targetNotes}
                   currentIndex={currentIndex}
                   notationSystem={settings.notationSystem}
+                  accidentalStyle={settings.accidentalStyle}
+                  keySignature={keySignature}
+                  clef={clef}
+                  transposition={settings.transposition}
+                  timeSignature={timeSignature}
                 />
+                )}
               </div>
               
               <div className="flex items-center gap-2 flex-shrink-0">
                 <div className="flex items-center gap-1 text-xs">
                   <span className="text-success">✓ {score.correct}</span>
                   <span className="text-destructive">✗ {score.incorrect}</span>
+                  {settings.rhythmEnabled && (
+                    <span className="text-muted-foreground" title="Notes played on time">
+                      ⏱ {timingScore.onTime}/{timingScore.onTime + timingScore.early + timingScore.late}
+                    </span>
+                  )}
+                  {intonationScore.attempts > 0 && (
+                    <span className="flex items-center text-muted-foreground" title="Mic notes played in tune">
+                      ♪ {intonationScore.inTune}/{intonationScore.attempts}
+                      {lastIntonation?.verdict === 'flat' && <ArrowUp className="h-3 w-3 text-destructive" />}
+                      {lastIntonation?.verdict === 'sharp' && <ArrowDown className="h-3 w-3 text-destructive" />}
+                    </span>
+                  )}
                 </div>
                 
                 <Button variant="ghost" size="sm" onClick={handleReset} className="h-6 text-xs px-2">
                   New
                 </Button>
+                <Button 
+                  variant={isMetronomeOn ? "default" : "outline"} 
+                  size="icon" 
+                  onClick={toggleMetronome} 
+                  className="h-6 w-6"
+                  title="Metronome"
+                >
+                  <Timer className="h-3 w-3" />
+                </Button>
+                {isMetronomeOn && (
+                  <BeatIndicator accents={metronomeAccents} className="hidden sm:flex" />
+                )}
+                <Button 
+                  variant={isIqaPlaying ? "default" : "outline"} 
+                  size="icon" 
+                  onClick={toggleIqa} 
+                  className="h-6 w-6"
+                  title={`Iqa' (${iqa.name})`}
+                >
+                  <Drum className="h-3 w-3" />
+                </Button>
+                {isIqaPlaying && (
+                  <IqaTimeline iqa={iqa} fills={settings.iqaFills} isPlaying={isIqaPlaying} compact className="hidden md:flex" />
+                )}
+                <Button 
+                  variant={view === 'ear' ? "default" : "outline"} 
+                  size="icon" 
+                  onClick={toggleEarTraining} 
+                  className="h-6 w-6"
+                  title="Ear training"
+                >
+                  <Ear className="h-3 w-3" />
+                </Button>
+                <Button 
+                  variant={view === 'names' ? "default" : "outline"} 
+                  size="icon" 
+                  onClick={toggleNameFlashcards} 
+                  className="h-6 w-6"
+                  title="Name the note"
+                >
+                  <Layers className="h-3 w-3" />
+                </Button>
+                <Button 
+                  variant={view === 'tuner' ? "default" : "outline"} 
+                  size="icon" 
+                  onClick={toggleTuner} 
+                  className="h-6 w-6"
+                  title="Tuner"
+                >
+                  <Gauge className="h-3 w-3" />
+                </Button>
                 <Button variant="outline" size="icon" onClick={toggleMute} className="h-6 w-6">
                   {isMuted ? <VolumeX className="h-3 w-3" /> : <Volume2 className="h-3 w-3" />}
                 </Button>
@@ -308,31 +647,36 @@ function Index() {
                 <MicLevelIndicator level={micLevel} status={micStatus} className="hidden sm:flex" />
               )}
             {liveDetectedNote && (
-              <div className={`${targetNotes[currentIndex]?.note && notesEqual(liveDetectedNote, targetNotes[currentIndex].note) ? 'bg-success/20 border border-success text-success animate-note-correct' : 'bg-destructive/20 border border-destructive text-destructive animate-note-shake'} px-2 py-0.5 rounded text-xs`}>
-                {settings.notationSystem === 'solfege' ? (
-                  <span>
-                    {liveDetectedNote.letter === 'C' ? 'Do' :
-                     liveDetectedNote.letter === 'D' ? 'Re' :
-                     liveDetectedNote.letter === 'E' ? 'Mi' :
-                     liveDetectedNote.letter === 'F' ? 'Fa' :
-                     liveDetectedNote.letter === 'G' ? 'Sol' :
-                     liveDetectedNote.letter === 'A' ? 'La' : 'Si'}
-                    {liveDetectedNote.accidental === '#' ? '♯' : liveDetectedNote.accidental === 'b' ? '♭' : ''}{liveDetectedNote.octave}
-                  </span>
-                ) : (
-                  <span>
-                    {liveDetectedNote.letter}{liveDetectedNote.accidental === '#' ? '♯' : liveDetectedNote.accidental === 'b' ? '♭' : ''}{liveDetectedNote.octave}
-                  </span>
-                )}
+              <div className={`${liveDetectionMatchesTarget ? 'bg-success/20 border border-success text-success animate-note-correct' : 'bg-destructive/20 border border-destructive text-destructive animate-note-shake'} px-2 py-0.5 rounded text-xs`}>
+                <span>{formatNote(liveDetectedNote, settings.notationSystem)}</span>
               </div>
             )}
-                <SettingsPanel settings={settings} onSettingsChange={handleSettingsChange} />
+                <SettingsPanel settings={settings} onSettingsChange={handleSettingsChange} onDetectingTuningChange={setIsDetectingTuning} />
               </div>
             </header>
           </ResizablePanel>
           <ResizableHandle withHandle />
           <ResizablePanel defaultSize={70} minSize={40}>
             <div className="h-full p-1">
+              {view === 'tuner' ? (
+                <Tuner
+                  settings={settings}
+                  isListening={isListening}
+                  onStartListening={toggleListening}
+                  compact
+                  className="h-full overflow-y-auto"
+                />
+              ) : view === 'names' ? (
+                <NameFlashcards
+                  settings={settings}
+                  keySignature={keySignature}
+                  target={targetNotes[currentIndex]}
+                  stats={flashcardStats}
+                  onAnswer={handleNameAnswer}
+                  compact
+                  className="h-full overflow-y-auto p-1"
+                />
+              ) : (
               <OudVisualizationCompact 
                 settings={settings} 
                 onNotePlayed={handleNotePlayed}
@@ -342,6 +686,7 @@ function Index() {
                 expectedNote={targetNotes[currentIndex]?.note}
             currentStatus={targetNotes[currentIndex]?.status}
               />
+              )}
             </div>
           </ResizablePanel>
         </ResizablePanelGroup>
@@ -370,6 +715,16 @@ function Index() {
             <div className="hidden sm:flex items-center gap-4 mr-4 text-sm">
               <span className="text-success font-medium">✓ {score.correct}</span>
               <span className="text-destructive font-medium">✗ {score.incorrect}</span>
+              {settings.rhythmEnabled && (
+                <span className="text-muted-foreground font-medium" title="Notes played on time">
+                  ⏱ {timingScore.onTime}/{timingScore.onTime + timingScore.early + timingScore.late}
+                </span>
+              )}
+              {intonationScore.attempts > 0 && (
+                <span className="text-muted-foreground font-medium" title="Mic notes played in tune">
+                  ♪ {intonationScore.inTune}/{intonationScore.attempts}
+                </span>
+              )}
             </div>
             
             <InstallPrompt className="h-10 w-10" />
@@ -395,49 +750,141 @@ function Index() {
               <MicLevelIndicator level={micLevel} status={micStatus} />
             )}
             {liveDetectedNote && (
-              <div className={`${targetNotes[currentIndex]?.note && notesEqual(liveDetectedNote, targetNotes[currentIndex].note) ? 'bg-success/20 border border-success text-success animate-note-correct' : 'bg-destructive/20 border border-destructive text-destructive animate-note-shake'} px-2 py-1 rounded text-sm`}>
-                {settings.notationSystem === 'solfege' ? (
-                  <span>
-                    {liveDetectedNote.letter === 'C' ? 'Do' :
-                     liveDetectedNote.letter === 'D' ? 'Re' :
-                     liveDetectedNote.letter === 'E' ? 'Mi' :
-                     liveDetectedNote.letter === 'F' ? 'Fa' :
-                     liveDetectedNote.letter === 'G' ? 'Sol' :
-                     liveDetectedNote.letter === 'A' ? 'La' : 'Si'}
-                    {liveDetectedNote.accidental === '#' ? '♯' : liveDetectedNote.accidental === 'b' ? '♭' : ''}{liveDetectedNote.octave}
-                  </span>
-                ) : (
-                  <span>
-                    {liveDetectedNote.letter}{liveDetectedNote.accidental === '#' ? '♯' : liveDetectedNote.accidental === 'b' ? '♭' : ''}{liveDetectedNote.octave}
-                  </span>
-                )}
+              <div className={`${liveDetectionMatchesTarget ? 'bg-success/20 border border-success text-success animate-note-correct' : 'bg-destructive/20 border border-destructive text-destructive animate-note-shake'} px-2 py-1 rounded text-sm`}>
+                <span>{formatNote(liveDetectedNote, settings.notationSystem)}</span>
               </div>
             )}
             
+            <Button 
+              variant={isMetronomeOn ? "default" : "outline"} 
+              size="icon" 
+              onClick={toggleMetronome} 
+              className="h-10 w-10"
+              title="Metronome"
+            >
+              <Timer className="h-5 w-5" />
+            </Button>
+            {isMetronomeOn && (
+              <BeatIndicator accents={metronomeAccents} />
+            )}
+            <Button 
+              variant={isIqaPlaying ? "default" : "outline"} 
+              size="icon" 
+              onClick={toggleIqa} 
+              className="h-10 w-10"
+              title={`Iqa' (${iqa.name})`}
+            >
+              <Drum className="h-5 w-5" />
+            </Button>
+            <Button 
+              variant={view === 'ear' ? "default" : "outline"} 
+              size="icon" 
+              onClick={toggleEarTraining} 
+              className="h-10 w-10"
+              title="Ear training"
+            >
+              <Ear className="h-5 w-5" />
+            </Button>
+            <Button 
+              variant={view === 'names' ? "default" : "outline"} 
+              size="icon" 
+              onClick={toggleNameFlashcards} 
+              className="h-10 w-10"
+              title="Name the note"
+            >
+              <Layers className="h-5 w-5" />
+            </Button>
+            <Button 
+              variant={view === 'tuner' ? "default" : "outline"} 
+              size="icon" 
+              onClick={toggleTuner} 
+              className="h-10 w-10"
+              title="Tuner"
+            >
+              <Gauge className="h-5 w-5" />
+            </Button>
+            
             <Button variant="outline" size="icon" onClick={toggleMute} className="h-10 w-10">
               {isMuted ? <VolumeX className="h-5 w-5" /> : <Volume2 className="h-5 w-5" />}
             </Button>
             
-            <SettingsPanel settings={settings} onSettingsChange={handleSettingsChange} />
+            <SettingsPanel settings={settings} onSettingsChange={handleSettingsChange} onDetectingTuningChange={setIsDetectingTuning} />
           </div>
         </div>
       </header>
       
       {/* Main Content */}
+      {view === 'tuner' ? (
+      <main className="flex-1 container mx-auto px-4 py-6 flex flex-col gap-6">
+        <section className="flex-1 min-h-0">
+          <h2 className="text-lg font-serif font-semibold text-foreground mb-3">Tuner</h2>
+          <div className="bg-card rounded-xl p-4 sm:p-6 border border-border shadow-lg">
+            <Tuner settings={settings} isListening={isListening} onStartListening={toggleListening} />
+          </div>
+        </section>
+      </main>
+      ) : (
       <main className="flex-1 container mx-auto px-4 py-6 flex flex-col gap-6">
         {/* Musical Staff Section */}
         <section className="flex-1 min-h-0">
           <div className="flex items-center justify-between mb-3">
-            <h2 className="text-lg font-serif font-semibold text-foreground">Sheet Music</h2>
+            <h2 className="text-lg font-serif font-semibold text-foreground">{view === 'ear' ? 'Ear Training' : 'Sheet Music'}</h2>
+            <div className="flex items-center gap-2">
+              {lastTiming && (
+                <span
+                  className={cn(
+                    'px-2 py-0.5 rounded text-xs font-medium',
+                    lastTiming.verdict === 'on-time' ? 'bg-success/20 text-success' : 'bg-destructive/20 text-destructive'
+                  )}
+                >
+                  {lastTiming.verdict === 'on-time'
+                    ? 'On time'
+                    : `${Math.round(Math.abs(lastTiming.offsetMs))} ms ${lastTiming.verdict}`}
+                </span>
+              )}
+              {lastIntonation && (
+                <span
+                  className={cn(
+                    'flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium tabular-nums',
+                    lastIntonation.verdict === 'in-tune' ? 'bg-success/20 text-success' : 'bg-destructive/20 text-destructive'
+                  )}
+                  title={lastIntonation.verdict === 'flat' ? 'Flat: aim higher' : lastIntonation.verdict === 'sharp' ? 'Sharp: aim lower' : undefined}
+                >
+                  {lastIntonation.verdict === 'flat' && <ArrowUp className="h-3 w-3" />}
+                  {lastIntonation.verdict === 'sharp' && <ArrowDown className="h-3 w-3" />}
+                  {lastIntonation.cents > 0 ? '+' : ''}{Math.round(lastIntonation.cents)}¢
+                  {lastIntonation.verdict === 'unsteady' && ' unsteady'}
+                </span>
+              )}
+            </div>
             <Button variant="ghost" size="sm" onClick={handleReset}>
               New Session
             </Button>
           </div>
+          {isIqaPlaying && (
+            <IqaTimeline iqa={iqa} fills={settings.iqaFills} isPlaying={isIqaPlaying} className="mb-3 overflow-x-auto" />
+          )}
+          {view === 'ear' ? (
+            <div className="bg-card rounded-xl p-4 sm:p-6 border border-border shadow-lg">
+              <EarTraining
+                settings={settings}
+                keySignature={keySignature}
+                target={targetNotes[currentIndex]}
+                onAnswer={handleNotePlayed}
+              />
+            </div>
+          ) : (
           <MusicStaff 
             targetNotes={targetNotes}
             currentIndex={currentIndex}
             notationSystem={settings.notationSystem}
+            accidentalStyle={settings.accidentalStyle}
+            keySignature={keySignature}
+            clef={clef}
+            transposition={settings.transposition}
+            timeSignature={timeSignature}
           />
+          )}
         </section>
         
         {/* Mobile Score */}
@@ -446,10 +893,19 @@ function Index() {
           <span className="text-destructive font-medium">✗ Wrong: {score.incorrect}</span>
         </div>
         
-        {/* Oud Section */}
+        {/* Oud Section, or the answer pad when naming notes */}
         <section className="flex-1 min-h-0">
-          <h2 className="text-lg font-serif font-semibold text-foreground mb-3">Oud</h2>
+          <h2 className="text-lg font-serif font-semibold text-foreground mb-3">{view === 'names' ? 'Name the Note' : 'Oud'}</h2>
           <div className="bg-card rounded-xl p-4 sm:p-6 border border-border shadow-lg">
+            {view === 'names' ? (
+              <NameFlashcards
+                settings={settings}
+                keySignature={keySignature}
+                target={targetNotes[currentIndex]}
+                stats={flashcardStats}
+                onAnswer={handleNameAnswer}
+              />
+            ) : (
             <OudVisualization 
               settings={settings} 
               onNotePlayed={handleNotePlayed}
@@ -458,9 +914,11 @@ function Index() {
               expectedNote={targetNotes[currentIndex]?.note}
               currentStatus={targetNotes[currentIndex]?.status}
             />
+            )}
           </div>
         </section>
       </main>
+      )}
       
       {/* Footer */}
       <footer className="border-t border-border py-3 text-center text-xs text-muted-foreground">